@@ -0,0 +1,188 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { logger } from "./logger";
+import { AccountStore, createAccountStore } from "./storage";
+import { Account, PublicProfile } from "./types";
+
+const log = logger.child({ scope: 'accounts' });
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Avatares disponíveis; o cliente escolhe o desenho de cada um
+export const AVATARS = ['cards', 'crown', 'sun', 'moon', 'star', 'anchor', 'rooster', 'owl'] as const;
+
+export type AccountErrorCode = 'invalid_token' | 'invalid_username' | 'weak_password' | 'username_taken' | 'already_registered' | 'invalid_credentials' | 'invalid_profile';
+
+export type AccountResult = { ok: true; account: Account } | { ok: false; code: AccountErrorCode; message: string };
+
+const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/;
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_DISPLAY_NAME_LENGTH = 24;
+
+// Contas por id, token e username (minúsculo)
+const accountsById = new Map<string, Account>();
+const accountIdByToken = new Map<string, string>();
+const accountIdByUsername = new Map<string, string>();
+const accountStore: AccountStore = createAccountStore();
+const pendingSaves = new Set<string>();
+
+function index(account: Account) {
+  accountsById.set(account.id, account);
+  accountIdByToken.set(account.token, account.id);
+  if (account.username) accountIdByUsername.set(account.username, account.id);
+}
+
+// Troca o token por um novo; o anterior deixa de valer na hora
+function rotateToken(account: Account) {
+  accountIdByToken.delete(account.token);
+  account.token = randomBytes(24).toString('hex');
+  accountIdByToken.set(account.token, account.id);
+}
+
+// Várias mudanças no mesmo tick (ex.: fichas de vários motivos) viram uma escrita só
+function saveAccount(account: Account) {
+  if (pendingSaves.has(account.id)) return;
+  pendingSaves.add(account.id);
+  setImmediate(() => {
+    pendingSaves.delete(account.id);
+    const current = accountsById.get(account.id);
+    if (!current) return;
+    accountStore.save(current).catch(error => log.error('Erro ao salvar conta', { accountId: account.id, error }));
+  });
+}
+
+export async function loadAccounts() {
+  const stored = await accountStore.loadAll();
+  stored.forEach(index);
+  if (stored.length > 0) log.info('Contas carregadas', { count: stored.length });
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hex] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hex) return false;
+  const expected = Buffer.from(hex, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function cleanDisplayName(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= MAX_DISPLAY_NAME_LENGTH ? trimmed : undefined;
+}
+
+export function isAvatar(value: unknown): boolean {
+  return typeof value === 'string' && (AVATARS as readonly string[]).includes(value);
+}
+
+export function createGuestAccount(displayName?: string): Account {
+  const id = 'u_' + randomBytes(8).toString('hex');
+  const account: Account = {
+    id,
+    token: randomBytes(24).toString('hex'),
+    displayName: cleanDisplayName(displayName) || `Convidado ${id.slice(-4)}`,
+    avatar: AVATARS[0],
+    createdAt: Date.now(),
+    stats: { handsPlayed: 0, handsWon: 0, chipsEarned: 0, chipsByReason: {} },
+  };
+  index(account);
+  saveAccount(account);
+  return account;
+}
+
+export function getAccountByToken(token: unknown): Account | undefined {
+  if (typeof token !== 'string') return undefined;
+  const id = accountIdByToken.get(token);
+  return id ? accountsById.get(id) : undefined;
+}
+
+export function getAccount(accountId: string): Account | undefined {
+  return accountsById.get(accountId);
+}
+
+// Convidado ganha username e senha; mantém id e estatísticas e recebe um token novo
+export async function upgradeAccount(token: unknown, username: unknown, password: unknown): Promise<AccountResult> {
+  const account = getAccountByToken(token);
+  if (!account) return { ok: false, code: 'invalid_token', message: 'Conta não encontrada' };
+  if (account.username) return { ok: false, code: 'already_registered', message: 'Conta já registrada' };
+  const name = typeof username === 'string' ? username.trim().toLowerCase() : '';
+  if (!USERNAME_PATTERN.test(name)) return { ok: false, code: 'invalid_username', message: 'Usuário deve ter 3 a 20 letras, números ou _' };
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return { ok: false, code: 'weak_password', message: `Senha deve ter ao menos ${MIN_PASSWORD_LENGTH} caracteres` };
+  }
+  if (accountIdByUsername.has(name)) return { ok: false, code: 'username_taken', message: 'Usuário já existe' };
+  // Reserva o nome antes do hash assíncrono para não haver dois registros com o mesmo username
+  accountIdByUsername.set(name, account.id);
+  try {
+    account.passwordHash = await hashPassword(password);
+  } catch (error) {
+    // Sem hash não há registro: libera o nome para outra tentativa
+    accountIdByUsername.delete(name);
+    throw error;
+  }
+  account.username = name;
+  account.upgradedAt = Date.now();
+  rotateToken(account);
+  saveAccount(account);
+  return { ok: true, account };
+}
+
+export async function loginAccount(username: unknown, password: unknown): Promise<AccountResult> {
+  const name = typeof username === 'string' ? username.trim().toLowerCase() : '';
+  const id = accountIdByUsername.get(name);
+  const account = id ? accountsById.get(id) : undefined;
+  if (!account?.passwordHash || typeof password !== 'string' || !(await verifyPassword(password, account.passwordHash))) {
+    return { ok: false, code: 'invalid_credentials', message: 'Usuário ou senha incorretos' };
+  }
+  // Cada login emite um token novo; quem tinha o anterior precisa entrar de novo
+  rotateToken(account);
+  saveAccount(account);
+  return { ok: true, account };
+}
+
+export function updateProfile(account: Account, changes: { displayName?: unknown; avatar?: unknown }): AccountResult {
+  const displayName = changes.displayName !== undefined ? cleanDisplayName(changes.displayName) : account.displayName;
+  if (!displayName || (changes.avatar !== undefined && !isAvatar(changes.avatar))) {
+    return { ok: false, code: 'invalid_profile', message: 'Nome ou avatar inválido' };
+  }
+  account.displayName = displayName;
+  if (changes.avatar !== undefined) account.avatar = changes.avatar as string;
+  saveAccount(account);
+  return { ok: true, account };
+}
+
+export function recordHandPlayed(accountId: string, won: boolean) {
+  const account = accountsById.get(accountId);
+  if (!account) return;
+  account.stats.handsPlayed += 1;
+  if (won) account.stats.handsWon += 1;
+  saveAccount(account);
+}
+
+// Fichas ganhas, separadas pelo motivo de cada regra
+export function recordChipsEarned(accountId: string, chipsByReason: Record<string, number>) {
+  const account = accountsById.get(accountId);
+  if (!account) return;
+  for (const [reason, chips] of Object.entries(chipsByReason)) {
+    account.stats.chipsEarned += chips;
+    account.stats.chipsByReason[reason] = (account.stats.chipsByReason[reason] ?? 0) + chips;
+  }
+  saveAccount(account);
+}
+
+export function toPublicProfile(account: Account): PublicProfile {
+  return {
+    id: account.id,
+    displayName: account.displayName,
+    avatar: account.avatar,
+    registered: !!account.username,
+    createdAt: account.createdAt,
+    stats: account.stats,
+  };
+}
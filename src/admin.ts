@@ -0,0 +1,145 @@
+import express from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { RoomPhase } from "./roomController";
+import { logger } from "./logger";
+import { GameMode, GameState, RoomLogEntry, RoomMeta } from "./types";
+
+const log = logger.child({ scope: 'admin' });
+
+export const NOTICE_MAX_LENGTH = 500;
+const REASON_MAX_LENGTH = 200;
+
+export interface AdminRoomSummary {
+  roomId: string;
+  phase?: RoomPhase;
+  mode: GameMode;
+  teamMode: boolean;
+  isPublic: boolean;
+  capacity: number;
+  players: number;
+  connectedPlayers: number;
+  bots: number;
+  spectators: number;
+  ownerId: string;
+  matchNumber: number;
+  currentRound: number;
+  createdAt?: number;
+}
+
+// Sala completa para o suporte: inclui mãos, baralho e semente da mão em andamento
+export interface AdminRoomDetail {
+  summary: AdminRoomSummary;
+  meta: RoomMeta;
+  game: GameState;
+  players: { id: string; nickname: string; socketId?: string; connected: boolean; isBot: boolean; accountId?: string }[];
+  spectators: { socketId: string; nickname: string }[];
+  logs: RoomLogEntry[];
+  handHistories: number;
+}
+
+// O que a API de administração pode fazer no servidor; o index liga cada operação ao estado das salas
+export interface AdminOperations {
+  instanceId: string;
+  listRooms(): AdminRoomSummary[];
+  inspectRoom(roomId: string): AdminRoomDetail | undefined;
+  // Dona da sala em outra instância, para o 404 indicar onde procurar
+  roomOwner(roomId: string): Promise<string | undefined>;
+  closeRoom(roomId: string, reason: string): boolean;
+  // Derruba o socket em qualquer instância; false se ele não está conectado
+  kickSocket(socketId: string, reason: string): Promise<boolean>;
+  broadcastNotice(message: string): void;
+  isDraining(): boolean;
+  setDraining(enabled: boolean): void;
+}
+
+// Compara os hashes: tempo constante sem depender do tamanho do token enviado
+function tokenMatches(expected: string, given: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(expected), digest(given));
+}
+
+function parseText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text && text.length <= maxLength ? text : undefined;
+}
+
+// API de administração em /admin; todas as rotas exigem Authorization: Bearer <ADMIN_TOKEN>.
+// Sem token configurado a API fica desligada.
+export function createAdminRouter(operations: AdminOperations, token: string | undefined): express.Router {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    if (!token) {
+      return res.status(503).json({ error: 'API de administração desativada', code: 'admin_disabled' });
+    }
+    const header = req.headers.authorization || '';
+    if (!tokenMatches(token, header.startsWith('Bearer ') ? header.slice(7) : '')) {
+      log.warn('Acesso recusado', { method: req.method, path: req.path, ip: req.ip });
+      return res.status(401).json({ error: 'Token inválido', code: 'invalid_token' });
+    }
+    next();
+  });
+
+  router.get('/rooms', (req, res) => {
+    res.json({ instanceId: operations.instanceId, draining: operations.isDraining(), rooms: operations.listRooms() });
+  });
+
+  router.get('/rooms/:roomId', async (req, res) => {
+    const detail = operations.inspectRoom(req.params.roomId);
+    if (!detail) {
+      const owner = await operations.roomOwner(req.params.roomId).catch(() => undefined);
+      return res.status(404).json({ error: 'Sala não encontrada nesta instância', ownerInstanceId: owner });
+    }
+    res.json({ instanceId: operations.instanceId, ...detail });
+  });
+
+  router.post('/rooms/:roomId/close', (req, res) => {
+    const reason = parseText(req.body?.reason, REASON_MAX_LENGTH) || 'Sala encerrada pela administração';
+    if (!operations.closeRoom(req.params.roomId, reason)) {
+      return res.status(404).json({ error: 'Sala não encontrada nesta instância' });
+    }
+    log.warn('Sala encerrada', { roomId: req.params.roomId, reason });
+    res.json({ ok: true });
+  });
+
+  router.post('/sockets/:socketId/kick', async (req, res) => {
+    const reason = parseText(req.body?.reason, REASON_MAX_LENGTH) || 'Desconectado pela administração';
+    try {
+      if (!(await operations.kickSocket(req.params.socketId, reason))) {
+        return res.status(404).json({ error: 'Socket não conectado' });
+      }
+    } catch (error) {
+      log.error('Erro ao desconectar socket', { socketId: req.params.socketId, error });
+      return res.status(500).json({ error: 'Erro ao desconectar socket' });
+    }
+    log.warn('Socket desconectado', { socketId: req.params.socketId, reason });
+    res.json({ ok: true });
+  });
+
+  router.post('/notice', (req, res) => {
+    const message = parseText(req.body?.message, NOTICE_MAX_LENGTH);
+    if (!message) {
+      return res.status(400).json({ error: `Mensagem obrigatória, até ${NOTICE_MAX_LENGTH} caracteres` });
+    }
+    operations.broadcastNotice(message);
+    log.info('Aviso enviado', { message });
+    res.json({ ok: true });
+  });
+
+  // Drenagem antes de um deploy: salas existentes seguem, novas não são criadas nesta instância
+  router.get('/drain', (req, res) => {
+    res.json({ instanceId: operations.instanceId, draining: operations.isDraining() });
+  });
+
+  router.post('/drain', (req, res) => {
+    if (typeof req.body?.enabled !== 'boolean') {
+      return res.status(400).json({ error: 'Informe enabled: true ou false' });
+    }
+    operations.setDraining(req.body.enabled);
+    log.warn(req.body.enabled ? 'Drenagem ligada' : 'Drenagem desligada');
+    res.json({ instanceId: operations.instanceId, draining: operations.isDraining() });
+  });
+
+  return router;
+}
@@ -0,0 +1,80 @@
+import {
+  areOpponents,
+  findTrickLeader,
+  getCardOrder,
+  getCardPoints,
+  getCardSuit,
+  getCardValue,
+  getLegalCards,
+  getTrumpSuit,
+} from "./gameLogic";
+import { BotDifficulty, GameState } from "./types";
+
+// Escolhe a carta do bot; só considera cartas que playCard aceitaria
+export function chooseBotCard(game: GameState, playerId: string, difficulty: BotDifficulty): string | null {
+  const legal = getLegalCards(game, playerId);
+  if (legal.length === 0) return null;
+  if (difficulty === 'smart') return chooseSmartCard(game, playerId, legal);
+  return legal[Math.floor(Math.random() * legal.length)];
+}
+
+// Custo de "gastar" uma carta: pontos primeiro, depois trunfo, depois força
+function cardCost(card: string, trumpSuit: string): number {
+  const trumpPenalty = getCardSuit(card) === trumpSuit ? 20 : 0;
+  return getCardPoints(card) * 100 + trumpPenalty + getCardOrder(getCardValue(card));
+}
+
+function cheapest(cards: string[], trumpSuit: string): string {
+  return [...cards].sort((a, b) => cardCost(a, trumpSuit) - cardCost(b, trumpSuit))[0];
+}
+
+// Cartas já vistas por todos: capturadas em vazas anteriores ou na mesa
+function playedCards(game: GameState): Set<string> {
+  const seen = new Set<string>();
+  for (const p of game.players) p.capturedCards.forEach(c => seen.add(c));
+  game.table.forEach(t => seen.add(t.card));
+  return seen;
+}
+
+function chooseSmartCard(game: GameState, playerId: string, legal: string[]): string {
+  const trumpSuit = getTrumpSuit(game.trumpCard);
+  const me = game.players.find(p => p.id === playerId);
+  const hand = me?.hand ?? [];
+
+  // Saída: jogar a carta mais barata, de preferência sem pontos e sem trunfo
+  if (game.table.length === 0) return cheapest(legal, trumpSuit);
+
+  const tableCards = game.table.map(t => t.card);
+  const leader = game.table[findTrickLeader(tableCards, trumpSuit)];
+  const tablePoints = tableCards.reduce((sum, c) => sum + getCardPoints(c), 0);
+  const isLast = game.table.length === game.players.length - 1;
+  const seen = playedCards(game);
+
+  // Parceiro ganhando: se eu fecho a vaza, carregar pontos sem gastar trunfo; senão, não atrapalhar
+  if (!areOpponents(game, playerId, leader.playerId)) {
+    if (!isLast) return cheapest(legal, trumpSuit);
+    const nonTrump = legal.filter(c => getCardSuit(c) !== trumpSuit);
+    const pool = nonTrump.length > 0 ? nonTrump : legal;
+    return [...pool].sort((a, b) => getCardPoints(b) - getCardPoints(a) || cardCost(a, trumpSuit) - cardCost(b, trumpSuit))[0];
+  }
+
+  const winning = legal.filter(c => {
+    if (findTrickLeader([...tableCards, c], trumpSuit) !== tableCards.length) return false;
+    // Casamento 7/A: um 7 que ainda pode ser batido pelo Ás do mesmo naipe não é seguro antes do fim da vaza
+    if (!isLast && getCardValue(c) === '7') {
+      const ace = 'A' + getCardSuit(c);
+      if (!seen.has(ace) && !hand.includes(ace)) return false;
+    }
+    return true;
+  });
+
+  // Vale a pena ganhar se há pontos na mesa ou se a carta vencedora é barata
+  if (winning.length > 0) {
+    const best = cheapest(winning, trumpSuit);
+    const cheapWin = getCardPoints(best) === 0 && getCardSuit(best) !== trumpSuit;
+    if (tablePoints > 0 || cheapWin || (isLast && getCardPoints(best) > 0)) {
+      return best;
+    }
+  }
+  return cheapest(legal, trumpSuit);
+}
@@ -0,0 +1,66 @@
+import { Player, Room } from "./types";
+
+export const CHAT_MAX_LENGTH = Number(process.env.CHAT_MAX_LENGTH) || 200;
+
+// Reações rápidas aceitas durante a partida; o cliente escolhe o desenho de cada uma
+export const QUICK_REACTIONS = ['thumbs_up', 'laugh', 'wow', 'angry', 'clap', 'cry', 'good_game', 'hurry_up'] as const;
+export type QuickReaction = typeof QUICK_REACTIONS[number];
+
+export type ChatRejectionCode = 'not_in_room' | 'empty' | 'too_long' | 'rate_limited' | 'muted' | 'invalid_reaction';
+
+export function isQuickReaction(value: unknown): value is QuickReaction {
+  return typeof value === 'string' && (QUICK_REACTIONS as readonly string[]).includes(value);
+}
+
+export interface RateLimiter {
+  allow(key: string): boolean;
+  forget(key: string): void;
+}
+
+// Janela deslizante: no máximo `limit` ações por chave a cada `windowMs`
+export function createRateLimiter(limit: number, windowMs: number, options: { now?: () => number } = {}): RateLimiter {
+  const clock = options.now ?? Date.now;
+  const hits = new Map<string, number[]>();
+  return {
+    allow(key) {
+      const now = clock();
+      const recent = (hits.get(key) || []).filter(ts => now - ts < windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return false;
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return true;
+    },
+    forget(key) {
+      hits.delete(key);
+    },
+  };
+}
+
+// Quem pode falar na sala: sentado, não silenciado (por id de jogador, então vale após reconexão)
+// e dentro do limite de mensagens da chave dada
+export function checkChatAuthor(room: Room | undefined, playerId: string | undefined, limiter: RateLimiter, limiterKey: string):
+  { ok: true; player: Player } | { ok: false; code: ChatRejectionCode; message: string } {
+  const player = room?.game.players.find(p => p.id === playerId);
+  if (!player) return { ok: false, code: 'not_in_room', message: 'Você não está em uma sala' };
+  if (room!.meta.mutedPlayerIds?.includes(player.id)) return { ok: false, code: 'muted', message: 'Você foi silenciado pelo dono da sala' };
+  if (!limiter.allow(limiterKey)) return { ok: false, code: 'rate_limited', message: 'Muitas mensagens; aguarde um pouco' };
+  return { ok: true, player };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Troca palavras bloqueadas (palavra inteira, sem diferenciar maiúsculas) por asteriscos
+export function createWordFilter(words: string[]): (text: string) => string {
+  const cleaned = words.map(w => w.trim()).filter(Boolean);
+  if (cleaned.length === 0) return text => text;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${cleaned.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  return text => text.replace(pattern, match => '*'.repeat(match.length));
+}
+
+// Lista configurável por ambiente: CHAT_BLOCKED_WORDS=palavra1,palavra2
+export const filterChatText = createWordFilter((process.env.CHAT_BLOCKED_WORDS || '').split(','));
@@ -0,0 +1,182 @@
+import { areOpponents, creditTeamChips, getTeamStandings, getTrumpSuit } from "./gameLogic";
+import { ChipAward, ChipRuleOverrides, ChipRulePhase, ChipRulePreset, ChipRuleSetting, GameState, TablePlay, TeamChipAward } from "./types";
+
+export interface ChipRuleContext {
+  game: GameState;
+  trumpSuit: string;
+  trick?: { winnerId: string; cards: TablePlay[] }; // Só na fase 'trick': a vaza recém-resolvida
+}
+
+// Quem ganha a ficha: jogadores (somados à dupla no modo em duplas) ou só duplas
+export interface ChipRuleHit {
+  playerIds?: string[];
+  teams?: number[];
+}
+
+export interface ChipRule {
+  code: string; // Código do motivo, gravado em ChipAward.reasons
+  phase: ChipRulePhase;
+  points: number; // Valor padrão
+  enabledByDefault: boolean;
+  description: string;
+  evaluate(ctx: ChipRuleContext): ChipRuleHit;
+}
+
+// Jogadas de todas as vazas já resolvidas na mão
+function playsThisHand(game: GameState): { play: TablePlay; winnerId: string }[] {
+  return (game.tricks || []).flatMap(t => t.cards.map(play => ({ play, winnerId: t.winnerId })));
+}
+
+export function hasPlayedCard(game: GameState, playerId: string, card: string): boolean {
+  return playsThisHand(game).some(({ play }) => play.playerId === playerId && play.card === card)
+    || game.table.some(t => t.playerId === playerId && t.card === card);
+}
+
+// O jogador levou numa vaza a carta jogada por um adversário
+export function capturedFromOpponent(game: GameState, playerId: string, card: string): boolean {
+  return playsThisHand(game).some(({ play, winnerId }) => winnerId === playerId && play.card === card && areOpponents(game, play.playerId, playerId));
+}
+
+export const CHIP_RULES: ChipRule[] = [
+  {
+    code: 'captured_trump_2_initial',
+    phase: 'deal',
+    points: 1,
+    enabledByDefault: true,
+    description: 'tem o 2 do trunfo',
+    evaluate: ({ game, trumpSuit }) => ({ playerIds: game.players.filter(p => p.hand.includes('2' + trumpSuit)).map(p => p.id) }),
+  },
+  {
+    code: 'captured_both_trump_A_7_initial',
+    phase: 'deal',
+    points: 1,
+    enabledByDefault: true,
+    description: 'tem o A e o 7 do trunfo',
+    evaluate: ({ game, trumpSuit }) => ({
+      playerIds: game.players.filter(p => p.hand.includes('A' + trumpSuit) && p.hand.includes('7' + trumpSuit)).map(p => p.id),
+    }),
+  },
+  {
+    code: 'captured_opponent_trump_7',
+    phase: 'trick',
+    points: 1,
+    enabledByDefault: false,
+    description: 'levou o 7 do trunfo de um adversário',
+    evaluate: ({ game, trumpSuit, trick }) => {
+      const seven = trick?.cards.find(t => t.card === '7' + trumpSuit);
+      return { playerIds: trick && seven && areOpponents(game, seven.playerId, trick.winnerId) ? [trick.winnerId] : [] };
+    },
+  },
+  {
+    code: 'played_trump_A_and_captured_opponent_trump_7',
+    phase: 'hand_end',
+    points: 1,
+    enabledByDefault: true,
+    description: 'jogou o A do trunfo e levou o 7 do trunfo de um adversário',
+    evaluate: ({ game, trumpSuit }) => ({
+      playerIds: game.players
+        .filter(p => hasPlayedCard(game, p.id, 'A' + trumpSuit) && capturedFromOpponent(game, p.id, '7' + trumpSuit))
+        .map(p => p.id),
+    }),
+  },
+  {
+    code: 'highest_score',
+    phase: 'hand_end',
+    points: 1,
+    enabledByDefault: true,
+    description: 'fez a maior pontuação da mão',
+    // No modo em duplas a comparação é entre duplas; empate não dá ficha
+    evaluate: ({ game }) => {
+      const scores = game.teamMode ? getTeamStandings(game).map(t => t.score) : game.players.map(p => p.score);
+      const maxScore = Math.max(...scores);
+      if (maxScore <= 0 || scores.filter(s => s === maxScore).length !== 1) return {};
+      const index = scores.indexOf(maxScore);
+      return game.teamMode ? { teams: [index] } : { playerIds: [game.players[index].id] };
+    },
+  },
+  {
+    code: 'king_of_trump_last_trick',
+    phase: 'hand_end',
+    points: 1,
+    enabledByDefault: true,
+    description: 'levou a última vaza com o K do trunfo',
+    // Vencedor da última vaza jogou K de trunfo e ninguém jogou A/7 de trunfo nela
+    evaluate: ({ game, trumpSuit }) => {
+      const lastTrick = game.lastTrickCards || [];
+      const winnerId = game.lastTrickWinnerId;
+      const playedKing = lastTrick.some(t => t.playerId === winnerId && t.card === 'K' + trumpSuit);
+      const aceOrSeven = lastTrick.some(t => t.card === 'A' + trumpSuit || t.card === '7' + trumpSuit);
+      return { playerIds: winnerId && playedKing && !aceOrSeven ? [winnerId] : [] };
+    },
+  },
+];
+
+const PRESETS: Record<ChipRulePreset, ChipRuleOverrides> = {
+  standard: {},
+  score_only: {
+    captured_trump_2_initial: { enabled: false },
+    captured_both_trump_A_7_initial: { enabled: false },
+    played_trump_A_and_captured_opponent_trump_7: { enabled: false },
+    king_of_trump_last_trick: { enabled: false },
+  },
+  house_bisca: {
+    captured_opponent_trump_7: { enabled: true },
+    played_trump_A_and_captured_opponent_trump_7: { enabled: false },
+  },
+};
+
+export function isChipRulePreset(value: unknown): value is ChipRulePreset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PRESETS, value);
+}
+
+// Regras ativas da sala: preset + ajustes; códigos desconhecidos são ignorados e valores ficam entre 1 e 10
+export function resolveChipRules(preset: ChipRulePreset = 'standard', overrides: ChipRuleOverrides = {}): ChipRuleSetting[] {
+  const settings: ChipRuleSetting[] = [];
+  for (const rule of CHIP_RULES) {
+    const merged = { ...PRESETS[preset][rule.code], ...overrides[rule.code] };
+    if (!(merged.enabled ?? rule.enabledByDefault)) continue;
+    const points = Number.isFinite(merged.points) ? Math.max(1, Math.min(10, Math.floor(merged.points!))) : rule.points;
+    settings.push({ code: rule.code, points });
+  }
+  return settings;
+}
+
+// Avalia as regras ativas de uma fase; prêmios do mesmo jogador (ou dupla) são somados
+export function evaluateChipRules(settings: ChipRuleSetting[], phase: ChipRulePhase, game: GameState, trick?: ChipRuleContext['trick']): { awards: ChipAward[]; teamOnlyAwards: TeamChipAward[] } {
+  const ctx: ChipRuleContext = { game, trumpSuit: getTrumpSuit(game.trumpCard), trick };
+  const awards = new Map<string, ChipAward>();
+  const teamOnlyAwards = new Map<number, TeamChipAward>();
+  for (const setting of settings) {
+    const rule = CHIP_RULES.find(r => r.code === setting.code);
+    if (!rule || rule.phase !== phase) continue;
+    const hit = rule.evaluate(ctx);
+    for (const playerId of hit.playerIds || []) {
+      const award = awards.get(playerId) || { playerId, delta: 0, reasons: [] };
+      award.delta += setting.points;
+      award.reasons.push(rule.code);
+      awards.set(playerId, award);
+    }
+    for (const team of hit.teams || []) {
+      const award = teamOnlyAwards.get(team) || { team, delta: 0, reasons: [] };
+      award.delta += setting.points;
+      award.reasons.push(rule.code);
+      teamOnlyAwards.set(team, award);
+    }
+  }
+  // Na ordem dos assentos, como no resto do jogo
+  const ordered = game.players.map(p => awards.get(p.id)).filter((a): a is ChipAward => !!a);
+  return { awards: ordered, teamOnlyAwards: Array.from(teamOnlyAwards.values()) };
+}
+
+// Credita os prêmios nas fichas dos jogadores e, no modo em duplas, nas das duplas
+export function applyChipAwards(game: GameState, awards: ChipAward[], teamOnlyAwards: TeamChipAward[] = []): { game: GameState; teamAwards: TeamChipAward[] } {
+  const players = game.players.map(p => {
+    const delta = awards.find(a => a.playerId === p.id)?.delta || 0;
+    return { ...p, chips: (p.chips ?? 0) + delta };
+  });
+  return creditTeamChips({ ...game, players }, awards, teamOnlyAwards);
+}
+
+export function getChipRule(code: string): ChipRule | undefined {
+  return CHIP_RULES.find(r => r.code === code);
+}
@@ -0,0 +1,479 @@
+import { randomBytes } from "crypto";
+import { createClient } from "redis";
+import type { Namespace, Server } from "socket.io";
+import { ClusterAdapterOptions, ClusterAdapterWithHeartbeat, ClusterMessage, ClusterResponse } from "socket.io-adapter";
+import type { ClientToServerEvents, ServerToClientEvents } from "./events";
+import { logger } from "./logger";
+import { LobbyEntry } from "./types";
+
+const log = logger.child({ scope: 'cluster' });
+
+// Canal compartilhado entre as instâncias do servidor: mensagens (pub/sub) e posse com prazo (leases).
+// O Socket.IO usa o mesmo canal, pelo adapter, para os broadcasts chegarem a sockets de qualquer instância.
+export interface Backplane {
+  publish(channel: string, message: unknown): void;
+  subscribe(channel: string, handler: (message: unknown) => void): () => void;
+  // Posse de uma chave até expirar; o mesmo dono renova chamando de novo
+  claim(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  owner(key: string): Promise<string | undefined>;
+  release(key: string, owner: string): Promise<void>;
+}
+
+// Entrega de uma mensagem recebida; erro de um inscrito não afeta os outros
+function deliver(channel: string, handler: (message: unknown) => void, raw: string) {
+  try {
+    handler(JSON.parse(raw));
+  } catch (error) {
+    log.error('Erro ao tratar mensagem do backplane', { channel, error });
+  }
+}
+
+// Backplane no próprio processo: serve uma instância sozinha e os testes com várias instâncias no mesmo processo.
+// Mensagens são copiadas e entregues depois, como chegariam pela rede.
+export function createMemoryBackplane(options: { now?: () => number } = {}): Backplane {
+  const now = options.now ?? Date.now;
+  const handlers = new Map<string, Set<(message: unknown) => void>>();
+  const leases = new Map<string, { owner: string; expiresAt: number }>();
+  const activeLease = (key: string) => {
+    const lease = leases.get(key);
+    if (lease && lease.expiresAt <= now()) {
+      leases.delete(key);
+      return undefined;
+    }
+    return lease;
+  };
+
+  return {
+    publish(channel, message) {
+      const raw = JSON.stringify(message);
+      setImmediate(() => {
+        for (const handler of Array.from(handlers.get(channel) || [])) deliver(channel, handler, raw);
+      });
+    },
+    subscribe(channel, handler) {
+      const set = handlers.get(channel) || new Set();
+      set.add(handler);
+      handlers.set(channel, set);
+      return () => {
+        set.delete(handler);
+        if (set.size === 0 && handlers.get(channel) === set) handlers.delete(channel);
+      };
+    },
+    async claim(key, owner, ttlMs) {
+      const lease = activeLease(key);
+      if (lease && lease.owner !== owner) return false;
+      leases.set(key, { owner, expiresAt: now() + ttlMs });
+      return true;
+    },
+    async owner(key) {
+      return activeLease(key)?.owner;
+    },
+    async release(key, owner) {
+      if (activeLease(key)?.owner === owner) leases.delete(key);
+    },
+  };
+}
+
+// Posse atômica: grava se a chave está livre ou já é do mesmo dono (renovação)
+const CLAIM_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current == false or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0`;
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+// Parte do cliente do Redis que o backplane usa; os testes trocam por um Redis falso
+export interface RedisBackplaneClient {
+  on(event: 'error', listener: (error: unknown) => void): unknown;
+  connect(): Promise<unknown>;
+  publish(channel: string, message: string): Promise<unknown>;
+  subscribe(channel: string, listener: (message: string) => void): Promise<unknown>;
+  unsubscribe(channel: string, listener: (message: string) => void): Promise<unknown>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  get(key: string): Promise<string | null>;
+}
+
+// Backplane no Redis: pub/sub para as mensagens e chaves com expiração para as posses.
+// O pub/sub ocupa uma conexão só para ele; comandos dados antes de conectar esperam a conexão.
+export function createRedisBackplane(
+  url: string,
+  options: { createClient?: (url: string) => RedisBackplaneClient } = {},
+): Backplane {
+  const connectTo = options.createClient ?? ((clientUrl: string) => createClient({ url: clientUrl }));
+  const client = connectTo(url);
+  const subscriber = connectTo(url);
+  client.on('error', error => log.error('Erro na conexão com o Redis', { connection: 'commands', error }));
+  subscriber.on('error', error => log.error('Erro na conexão com o Redis', { connection: 'pubsub', error }));
+  const ready = Promise.all([client.connect(), subscriber.connect()]);
+  ready.then(
+    () => log.info('Backplane conectado ao Redis'),
+    error => log.error('Não foi possível conectar ao Redis', { error }),
+  );
+
+  return {
+    publish(channel, message) {
+      const raw = JSON.stringify(message);
+      ready
+        .then(() => client.publish(channel, raw))
+        .catch(error => log.error('Erro ao publicar no backplane', { channel, error }));
+    },
+    subscribe(channel, handler) {
+      const listener = (raw: string) => deliver(channel, handler, raw);
+      const subscribed = ready.then(() => subscriber.subscribe(channel, listener));
+      subscribed.catch(error => log.error('Erro ao assinar canal do backplane', { channel, error }));
+      return () => {
+        subscribed
+          .then(() => subscriber.unsubscribe(channel, listener))
+          .catch(error => log.error('Erro ao cancelar canal do backplane', { channel, error }));
+      };
+    },
+    async claim(key, owner, ttlMs) {
+      await ready;
+      return (await client.eval(CLAIM_SCRIPT, { keys: [key], arguments: [owner, String(Math.ceil(ttlMs))] })) === 1;
+    },
+    async owner(key) {
+      await ready;
+      return (await client.get(key)) ?? undefined;
+    },
+    async release(key, owner) {
+      await ready;
+      await client.eval(RELEASE_SCRIPT, { keys: [key], arguments: [owner] });
+    },
+  };
+}
+
+// BACKPLANE_URL (redis:// ou rediss://) liga as instâncias pelo Redis; sem ela, backplane em memória (instância única)
+export function createBackplane(url = process.env.BACKPLANE_URL): Backplane {
+  if (!url) return createMemoryBackplane();
+  if (/^rediss?:\/\//.test(url)) return createRedisBackplane(url);
+  // Cair para a memória separaria as instâncias sem aviso
+  throw new Error('BACKPLANE_URL deve começar com redis:// ou rediss://');
+}
+
+// Adapter do Socket.IO sobre o backplane: io.to(sala).emit, socketsJoin e disconnectSockets valem para o cluster
+class BackplaneAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly unsubscribe: (() => void)[];
+
+  constructor(nsp: Namespace, private readonly backplane: Backplane, options: ClusterAdapterOptions) {
+    super(nsp, options);
+    this.unsubscribe = [
+      backplane.subscribe(this.channel, message => this.onMessage(message as ClusterMessage)),
+      backplane.subscribe(`${this.channel}#${this.uid}`, response => this.onResponse(response as ClusterResponse)),
+    ];
+  }
+
+  private get channel() {
+    return `bisca:socket.io#${this.nsp.name}`;
+  }
+
+  protected async doPublish(message: ClusterMessage) {
+    this.backplane.publish(this.channel, message);
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: string, response: ClusterResponse) {
+    this.backplane.publish(`${this.channel}#${requesterUid}`, response);
+  }
+
+  close() {
+    super.close();
+    this.unsubscribe.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+// O Socket.IO chama com `new`: precisa ser function, não arrow
+export function createBackplaneAdapter(backplane: Backplane, options: ClusterAdapterOptions = {}) {
+  return function (nsp: Namespace) {
+    return new BackplaneAdapter(nsp, backplane, options);
+  };
+}
+
+// Mensagens diretas entre instâncias: eventos de sockets encaminhados à dona da sala e o lobby compartilhado
+export type InstanceMessage =
+  | { type: 'event'; origin: string; socketId: string; event: string; payload: unknown; ackId?: string }
+  | { type: 'ack'; ackId: string; result: unknown }
+  | { type: 'disconnect'; socketId: string; reason: string }
+  | { type: 'route'; socketId: string; owner: string; roomId?: string }
+  | { type: 'lobbyEntry'; origin: string; roomId: string; entry: LobbyEntry | null }
+  | { type: 'lobbySync'; origin: string };
+
+export interface InstanceLink {
+  readonly instanceId: string;
+  // Posse das salas: quem cria ou restaura a sala a reivindica; a posse é renovada enquanto a instância viver
+  claimRoom(roomId: string): Promise<boolean>;
+  releaseRoom(roomId: string): void;
+  ownerOf(roomId: string): Promise<string | undefined>;
+  isAlive(instanceId: string): Promise<boolean>;
+  send(instanceId: string, message: InstanceMessage): void;
+  broadcast(message: InstanceMessage): void;
+  close(): void;
+}
+
+export function generateInstanceId(): string {
+  return 'i_' + randomBytes(6).toString('hex');
+}
+
+const roomKey = (roomId: string) => `bisca:room:${roomId}`;
+const instanceKey = (instanceId: string) => `bisca:instance:${instanceId}`;
+const BROADCAST_CHANNEL = 'bisca:instances';
+
+// Liga esta instância às outras. A posse (de cada sala e da própria instância) vale por leaseMs e é
+// renovada a cada terço do prazo; se a instância cair, as posses expiram e as outras percebem.
+export function createInstanceLink(
+  backplane: Backplane,
+  instanceId: string,
+  onMessage: (message: InstanceMessage) => void,
+  options: { leaseMs?: number } = {},
+): InstanceLink {
+  const leaseMs = options.leaseMs ?? 30000;
+  const ownedRooms = new Set<string>();
+  const unsubscribe = [
+    backplane.subscribe(instanceKey(instanceId), message => onMessage(message as InstanceMessage)),
+    backplane.subscribe(BROADCAST_CHANNEL, message => {
+      const origin = (message as { origin?: string }).origin;
+      if (origin !== instanceId) onMessage(message as InstanceMessage);
+    }),
+  ];
+
+  const renew = () => {
+    backplane.claim(instanceKey(instanceId), instanceId, leaseMs).catch(error => log.error('Erro ao renovar a instância', { instanceId, error }));
+    for (const roomId of ownedRooms) {
+      backplane.claim(roomKey(roomId), instanceId, leaseMs)
+        .then(ok => {
+          if (!ok) log.error('Posse da sala ficou com outra instância', { instanceId, roomId });
+        })
+        .catch(error => log.error('Erro ao renovar a sala', { instanceId, roomId, error }));
+    }
+  };
+  renew();
+  const renewTimer = setInterval(renew, leaseMs / 3);
+  renewTimer.unref();
+
+  return {
+    instanceId,
+    async claimRoom(roomId) {
+      const ok = await backplane.claim(roomKey(roomId), instanceId, leaseMs);
+      if (ok) ownedRooms.add(roomId);
+      return ok;
+    },
+    releaseRoom(roomId) {
+      ownedRooms.delete(roomId);
+      backplane.release(roomKey(roomId), instanceId).catch(error => log.error('Erro ao liberar a sala', { instanceId, roomId, error }));
+    },
+    ownerOf: roomId => backplane.owner(roomKey(roomId)),
+    async isAlive(other) {
+      return (await backplane.owner(instanceKey(other))) === other;
+    },
+    send(target, message) {
+      backplane.publish(instanceKey(target), message);
+    },
+    broadcast(message) {
+      backplane.publish(BROADCAST_CHANNEL, message);
+    },
+    close() {
+      clearInterval(renewTimer);
+      unsubscribe.forEach(u => u());
+      for (const roomId of ownedRooms) backplane.release(roomKey(roomId), instanceId).catch(() => undefined);
+      ownedRooms.clear();
+      backplane.release(instanceKey(instanceId), instanceId).catch(() => undefined);
+    },
+  };
+}
+
+// Socket de outra instância, visto pela dona da sala: emit e join passam pelo adapter do cluster.
+// O socket do Socket.IO satisfaz a mesma interface, então os handlers servem para os dois.
+// Listeners recebem os argumentos crus do evento; quem registra valida o payload.
+export interface RemoteSocket {
+  id: string;
+  emit<E extends keyof ServerToClientEvents>(event: E, ...args: Parameters<ServerToClientEvents[E]>): boolean;
+  join(room: string): void;
+  leave(room: string): void;
+  on(event: keyof ClientToServerEvents | 'disconnect', listener: (...args: unknown[]) => void): RemoteSocket;
+}
+
+export interface EventRouterOptions {
+  // Sala a que um evento se refere: string para uma sala dada no payload, undefined para a sala do socket
+  // e null para eventos tratados sempre na instância do socket (criar sala, lobby, payload inválido)
+  roomOf(event: string, payload: unknown): string | null | undefined;
+  isLocalRoom(roomId: string): boolean;
+  // Handlers dos eventos do cliente no representante de um socket de outra instância
+  registerHandlers(socket: RemoteSocket): void;
+  // Ack de evento encaminhado sem resposta da dona é esquecido depois deste prazo
+  ackTimeoutMs?: number;
+}
+
+export interface EventRouter {
+  // Middleware (socket.use) dos sockets desta instância: trata aqui ou encaminha à dona da sala, mantendo a ordem
+  route(socket: { id: string; connected: boolean }, packet: unknown[], next: (err?: Error) => void): void;
+  // Socket desta instância caiu: as instâncias que trataram eventos dele fazem o próprio disconnect
+  socketClosed(socketId: string, reason: string): void;
+  // Socket sentou numa sala desta instância (roomId) ou saiu dela
+  updateRoute(socketId: string, roomId?: string): void;
+  isRemoteSocket(socketId: string): boolean;
+  // Trata event, ack, disconnect e route; devolve false para as demais mensagens
+  handleMessage(message: InstanceMessage): boolean;
+  // Instâncias com sockets ou rotas conhecidas aqui; dropInstance descarta os de uma instância que caiu
+  instances(): string[];
+  dropInstance(instanceId: string): void;
+}
+
+// Encaminhamento dos eventos de sockets: cada sala vive em uma instância (a dona), e os eventos de sockets
+// conectados em outra seguem para ela, que responde pelo adapter do cluster
+export function createEventRouter(io: Server<ClientToServerEvents, ServerToClientEvents>, link: InstanceLink, options: EventRouterOptions): EventRouter {
+  const ackTimeoutMs = options.ackTimeoutMs ?? 10000;
+  const remoteSockets = new Map<string, { origin: string; dispatch(event: string, args: unknown[]): void }>(); // socket de outra instância -> representante nesta
+  const socketRoutes = new Map<string, { roomId: string; owner: string }>(); // socket local -> sala de outra instância onde está
+  const forwardedTo = new Map<string, Set<string>>(); // socket local -> instâncias que receberam eventos dele
+  const routeQueues = new Map<string, Promise<void>>(); // socket local -> encaminhamento esperando a consulta da dona
+  const pendingAcks = new Map<string, (result: unknown) => void>();
+
+  const createRemoteSocket = (socketId: string, origin: string) => {
+    const listeners = new Map<string, (...args: unknown[]) => void>();
+    const socket: RemoteSocket = {
+      id: socketId,
+      emit: (event, ...args) => io.to(socketId).emit(event, ...args),
+      join: room => io.in(socketId).socketsJoin(room),
+      leave: room => io.in(socketId).socketsLeave(room),
+      on: (event, listener) => {
+        listeners.set(event, listener);
+        return socket;
+      },
+    };
+    options.registerHandlers(socket);
+    return { origin, dispatch: (event: string, args: unknown[]) => listeners.get(event)?.(...args) };
+  };
+
+  // Instância que trata o evento (undefined: esta); consulta o backplane só para salas de payload que não estão aqui
+  const eventOwner = (socketId: string, event: string, payload: unknown): string | undefined | Promise<string | undefined> => {
+    const roomId = options.roomOf(event, payload);
+    if (roomId === null) return undefined;
+    if (roomId === undefined) return socketRoutes.get(socketId)?.owner;
+    if (options.isLocalRoom(roomId)) return undefined;
+    return link.ownerOf(roomId);
+  };
+
+  const forwardEvent = (socketId: string, owner: string, event: string, payload: unknown, ack: unknown) => {
+    let ackId: string | undefined;
+    if (typeof ack === 'function') {
+      const id = randomBytes(8).toString('hex');
+      pendingAcks.set(id, ack as (result: unknown) => void);
+      setTimeout(() => pendingAcks.delete(id), ackTimeoutMs).unref();
+      ackId = id;
+    }
+    const owners = forwardedTo.get(socketId) || new Set<string>();
+    owners.add(owner);
+    forwardedTo.set(socketId, owners);
+    link.send(owner, { type: 'event', origin: link.instanceId, socketId, event, payload, ackId });
+  };
+
+  return {
+    route(socket, packet, next) {
+      const [event, payload, ack] = packet;
+      const dispatch = (owner: string | undefined) => {
+        if (!socket.connected) return;
+        if (!owner || owner === link.instanceId) next();
+        else forwardEvent(socket.id, owner, String(event), payload, ack);
+      };
+      const pending = routeQueues.get(socket.id);
+      const owner = pending ? pending.then(() => eventOwner(socket.id, String(event), payload)) : eventOwner(socket.id, String(event), payload);
+      if (!(owner instanceof Promise)) {
+        dispatch(owner);
+        return;
+      }
+      const queued: Promise<void> = owner
+        .then(dispatch, error => {
+          log.error('Erro ao localizar a dona do evento; tratando aqui', { socketId: socket.id, event: String(event), error });
+          dispatch(undefined);
+        })
+        .finally(() => {
+          if (routeQueues.get(socket.id) === queued) routeQueues.delete(socket.id);
+        });
+      routeQueues.set(socket.id, queued);
+    },
+
+    socketClosed(socketId, reason) {
+      for (const owner of forwardedTo.get(socketId) || []) {
+        link.send(owner, { type: 'disconnect', socketId, reason });
+      }
+      forwardedTo.delete(socketId);
+      socketRoutes.delete(socketId);
+      routeQueues.delete(socketId);
+    },
+
+    // Socket local sentado numa sala daqui não tem rota; socket de outra instância ganha (ou perde, sem roomId)
+    // na instância de origem a rota para esta, e os eventos seguintes dele vêm direto para cá
+    updateRoute(socketId, roomId) {
+      const remote = remoteSockets.get(socketId);
+      if (remote) link.send(remote.origin, { type: 'route', socketId, owner: link.instanceId, roomId });
+      else if (roomId) socketRoutes.delete(socketId);
+    },
+
+    isRemoteSocket: socketId => remoteSockets.has(socketId),
+
+    handleMessage(message) {
+      switch (message.type) {
+        case 'event': {
+          let remote = remoteSockets.get(message.socketId);
+          if (!remote) {
+            remote = createRemoteSocket(message.socketId, message.origin);
+            remoteSockets.set(message.socketId, remote);
+          }
+          const { ackId, origin } = message;
+          const ack = (result: unknown) => link.send(origin, { type: 'ack', ackId: ackId!, result });
+          remote.dispatch(message.event, ackId ? [message.payload, ack] : [message.payload]);
+          return true;
+        }
+        case 'ack': {
+          const ack = pendingAcks.get(message.ackId);
+          pendingAcks.delete(message.ackId);
+          ack?.(message.result);
+          return true;
+        }
+        case 'disconnect': {
+          const remote = remoteSockets.get(message.socketId);
+          if (remote) {
+            remoteSockets.delete(message.socketId);
+            remote.dispatch('disconnect', [message.reason]);
+          }
+          return true;
+        }
+        case 'route': {
+          if (!io.sockets.sockets.has(message.socketId)) return true;
+          if (message.roomId) {
+            socketRoutes.set(message.socketId, { roomId: message.roomId, owner: message.owner });
+          } else if (socketRoutes.get(message.socketId)?.owner === message.owner) {
+            socketRoutes.delete(message.socketId);
+          }
+          return true;
+        }
+        default:
+          return false;
+      }
+    },
+
+    instances() {
+      return Array.from(new Set([
+        ...Array.from(remoteSockets.values(), s => s.origin),
+        ...Array.from(socketRoutes.values(), r => r.owner),
+      ]));
+    },
+
+    // Sockets da instância que caiu contam como desconectados
+    dropInstance(instanceId) {
+      for (const [socketId, remote] of remoteSockets) {
+        if (remote.origin !== instanceId) continue;
+        remoteSockets.delete(socketId);
+        remote.dispatch('disconnect', ['transport close']);
+      }
+      for (const [socketId, route] of socketRoutes) {
+        if (route.owner === instanceId) socketRoutes.delete(socketId);
+      }
+    },
+  };
+}
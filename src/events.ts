@@ -0,0 +1,308 @@
+import { ChatRejectionCode } from "./chat";
+import { boolean, Infer, number, object, oneOf, optional, record, Schema, string } from "./validation";
+import {
+  BotDifficulty, ChipAward, ChipRulePhase, ChipRuleSetting, CreateRoomOptions, GameMode, GameView, LobbyEntry,
+  MatchEndCondition, PlayRejectionCode, PlayValidation, PublicPlayer, RatingChange, RematchChips, RoomLogEntry,
+  SpectatorMode, TablePlay, TeamChipAward, TeamStanding, TieBreaker, WinCondition,
+} from "./types";
+
+// Contratos dos eventos do Socket.IO (cliente -> servidor e servidor -> cliente) e os schemas dos payloads recebidos
+
+// Motivos de recusa enviados em 'roomError'
+export type RoomErrorCode =
+  | 'invalid_payload'
+  | 'room_not_found'
+  | 'game_already_started'
+  | 'game_not_started'
+  | 'cannot_start'
+  | 'not_owner'
+  | 'invalid_player'
+  | 'already_seated'
+  | 'invalid_nickname'
+  | 'nickname_taken'
+  | 'invalid_session'
+  | 'invalid_account'
+  | 'account_already_seated'
+  | 'spectators_disabled'
+  | 'capacity_too_low'
+  | 'not_away'
+  | 'no_rematch_vote'
+  | 'rematch_pending'
+  | 'server_draining'
+  | 'internal_error';
+
+export interface RoomError {
+  code: RoomErrorCode;
+  message: string;
+}
+
+export const AWAY_VOTE_ACTIONS = ['replace', 'kick'] as const;
+export type AwayVoteAction = typeof AWAY_VOTE_ACTIONS[number];
+
+const GAME_MODES: readonly GameMode[] = ['ten_cards', 'classic'];
+const SPECTATOR_MODES: readonly SpectatorMode[] = ['off', 'public', 'delayed_full'];
+const BOT_DIFFICULTIES: readonly BotDifficulty[] = ['random', 'smart'];
+const REMATCH_CHIPS: readonly RematchChips[] = ['reset', 'carry'];
+const TIE_BREAKERS: readonly TieBreaker[] = ['card_points', 'sudden_death', 'shared'];
+
+export const NICKNAME_MAX_LENGTH = 20;
+// Letras (com acento), números, espaço e . _ ' -
+const NICKNAME_PATTERN = /^[\p{L}\p{N} _.'-]+$/u;
+// Valor + naipe, ex.: 'AS', '7H', 'KD'
+const CARD_PATTERN = /^(A|[2-7]|J|Q|K)[SHDC]$/;
+
+const nickname = string({ trim: true, min: 1, max: NICKNAME_MAX_LENGTH, pattern: NICKNAME_PATTERN });
+const id = string({ min: 1, max: 64 });
+const token = string({ min: 1, max: 128 });
+
+// Apelido vazio conta como ausente (vale o nome do perfil da conta)
+const optionalNickname: Schema<string | undefined> = (value, path) =>
+  typeof value === 'string' && !value.trim() ? { ok: true, value: undefined } : optional(nickname)(value, path);
+
+// Payload ignorado em eventos sem dados
+const none: Schema<undefined> = () => ({ ok: true, value: undefined });
+
+const winCondition: Schema<WinCondition> = object({
+  type: oneOf(['rounds', 'chips', 'points', 'best_of'] as const),
+  target: optional(number({ min: 1, max: 5000 })),
+});
+
+// Configurações da sala que o dono escolhe na criação e pode alterar no lobby
+const roomSettingsShape = {
+  capacity: optional(number({ integer: true, min: 2, max: 4 })),
+  totalRounds: optional(number({ integer: true, min: 1, max: 20 })),
+  mode: optional(oneOf(GAME_MODES)),
+  teamMode: optional(boolean()),
+  turnTimeoutSeconds: optional(number({ min: 0, max: 120 })),
+  spectatorMode: optional(oneOf(SPECTATOR_MODES)),
+  isPublic: optional(boolean()),
+  rematchChips: optional(oneOf(REMATCH_CHIPS)),
+  chipRulePreset: optional(oneOf(['standard', 'score_only', 'house_bisca'] as const)),
+  chipRules: optional(record(object({ enabled: optional(boolean()), points: optional(number()) }), { maxKeys: 20 })),
+  winCondition: optional(winCondition),
+  tieBreaker: optional(oneOf(TIE_BREAKERS)),
+};
+
+export type RoomSettings = Omit<CreateRoomOptions, 'nickname' | 'accountToken'>;
+
+const createRoomSchema: Schema<CreateRoomOptions> = object({ ...roomSettingsShape, nickname: optionalNickname, accountToken: optional(token) });
+const roomSettingsSchema: Schema<RoomSettings> = object(roomSettingsShape);
+const joinRoomSchema = object({ roomId: id, nickname: optionalNickname, accountToken: optional(token) });
+const quickMatchSchema = object({
+  nickname: optionalNickname,
+  capacity: optional(number({ integer: true, min: 2, max: 4 })),
+  mode: optional(oneOf(GAME_MODES)),
+  accountToken: optional(token),
+});
+const spectateRoomSchema = object({ roomId: id, nickname });
+const setSpectatorModeSchema = object({ roomId: id, mode: oneOf(SPECTATOR_MODES) });
+const rejoinRoomSchema = object({ sessionToken: token });
+const addBotSchema = object({ roomId: id, difficulty: optional(oneOf(BOT_DIFFICULTIES)) });
+const roomIdSchema = object({ roomId: id });
+const cardSchema = string({ pattern: CARD_PATTERN });
+const voteAwaySchema = object({ targetPlayerId: id, action: optional(oneOf(AWAY_VOTE_ACTIONS)) });
+// O tamanho e o conteúdo da mensagem são checados no handler, que responde com 'chatRejected'
+const chatMessageSchema = object({ text: string({ max: 2000 }) });
+const sendReactionSchema = object({ reaction: string({ max: 32 }) });
+const mutePlayerSchema = object({ targetPlayerId: id, muted: optional(boolean()) });
+const targetPlayerSchema = object({ targetPlayerId: id });
+const abortMatchSchema = optional(object({ resetChips: optional(boolean()) }));
+const voteRematchSchema = optional(object({ accept: optional(boolean()) }));
+
+export type JoinRoomPayload = Infer<typeof joinRoomSchema>;
+export type QuickMatchPayload = Infer<typeof quickMatchSchema>;
+export type SpectateRoomPayload = Infer<typeof spectateRoomSchema>;
+export type SetSpectatorModePayload = Infer<typeof setSpectatorModeSchema>;
+export type RejoinRoomPayload = Infer<typeof rejoinRoomSchema>;
+export type AddBotPayload = Infer<typeof addBotSchema>;
+export type RoomIdPayload = Infer<typeof roomIdSchema>;
+export type VoteAwayPayload = Infer<typeof voteAwaySchema>;
+export type ChatMessagePayload = Infer<typeof chatMessageSchema>;
+export type SendReactionPayload = Infer<typeof sendReactionSchema>;
+export type MutePlayerPayload = Infer<typeof mutePlayerSchema>;
+export type TargetPlayerPayload = Infer<typeof targetPlayerSchema>;
+export type AbortMatchPayload = Infer<typeof abortMatchSchema>;
+export type VoteRematchPayload = Infer<typeof voteRematchSchema>;
+
+export interface ClientToServerEvents {
+  createRoom: (options: CreateRoomOptions) => void;
+  joinRoom: (payload: JoinRoomPayload) => void;
+  subscribeLobby: () => void;
+  unsubscribeLobby: () => void;
+  quickMatch: (payload: QuickMatchPayload) => void;
+  spectateRoom: (payload: SpectateRoomPayload) => void;
+  stopSpectating: () => void;
+  setSpectatorMode: (payload: SetSpectatorModePayload) => void;
+  rejoinRoom: (payload: RejoinRoomPayload) => void;
+  addBot: (payload: AddBotPayload) => void;
+  startRoom: (payload: RoomIdPayload) => void;
+  // Com ack a resposta vem nele; sem ack recusas chegam em 'playRejected'
+  playCard: (card: string, ack?: (result: PlayValidation) => void) => void;
+  voteAway: (payload: VoteAwayPayload) => void;
+  chatMessage: (payload: ChatMessagePayload) => void;
+  sendReaction: (payload: SendReactionPayload) => void;
+  mutePlayer: (payload: MutePlayerPayload) => void;
+  kickPlayer: (payload: TargetPlayerPayload) => void;
+  transferOwnership: (payload: TargetPlayerPayload) => void;
+  updateRoomSettings: (settings: RoomSettings) => void;
+  abortMatch: (payload?: AbortMatchPayload) => void;
+  voteRematch: (payload?: VoteRematchPayload) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+// Payload (primeiro argumento) de um evento do cliente, já validado
+export type ClientPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+
+// Schema do primeiro argumento de cada evento do cliente
+export const clientEventSchemas: { [E in ClientEventName]: Schema<ClientPayload<E>> } = {
+  createRoom: createRoomSchema,
+  joinRoom: joinRoomSchema,
+  subscribeLobby: none,
+  unsubscribeLobby: none,
+  quickMatch: quickMatchSchema,
+  spectateRoom: spectateRoomSchema,
+  stopSpectating: none,
+  setSpectatorMode: setSpectatorModeSchema,
+  rejoinRoom: rejoinRoomSchema,
+  addBot: addBotSchema,
+  startRoom: roomIdSchema,
+  playCard: cardSchema,
+  voteAway: voteAwaySchema,
+  chatMessage: chatMessageSchema,
+  sendReaction: sendReactionSchema,
+  mutePlayer: mutePlayerSchema,
+  kickPlayer: targetPlayerSchema,
+  transferOwnership: targetPlayerSchema,
+  updateRoomSettings: roomSettingsSchema,
+  abortMatch: abortMatchSchema,
+  voteRematch: voteRematchSchema,
+};
+
+// Configuração da sala como o cliente recebe ao sentar
+interface SeatPayload {
+  roomId: string;
+  capacity: number;
+  mode: GameMode;
+  teamMode: boolean;
+  turnTimeoutMs?: number;
+  playerId: string;
+}
+
+export interface RoomCreatedPayload extends SeatPayload {
+  totalRounds: number;
+  winCondition?: WinCondition;
+  tieBreaker?: TieBreaker;
+  isPublic?: boolean;
+  sessionToken: string;
+}
+
+export interface RoomJoinedPayload extends SeatPayload {
+  ownerId: string;
+  sessionToken?: string; // Ausente quando o socket já estava sentado na sala
+}
+
+export interface RoomRejoinedPayload extends SeatPayload {
+  ownerId: string;
+  totalRounds?: number;
+  currentRound?: number;
+  winCondition: WinCondition;
+  tieBreaker: TieBreaker;
+  mutedPlayerIds: string[];
+  logs: RoomLogEntry[];
+}
+
+export interface SpectatingPayload {
+  roomId: string;
+  capacity: number;
+  mode: GameMode;
+  spectatorMode?: SpectatorMode;
+  spectatorDelayMs: number;
+  logs: RoomLogEntry[];
+}
+
+export interface RoomSettingsUpdatedPayload {
+  capacity: number;
+  totalRounds?: number;
+  winCondition: WinCondition;
+  tieBreaker: TieBreaker;
+  mode: GameMode;
+  teamMode: boolean;
+  turnTimeoutMs?: number;
+  spectatorMode?: SpectatorMode;
+  isPublic: boolean;
+  rematchChips: RematchChips;
+  chipRules: ChipRuleSetting[];
+}
+
+export interface ChipsAwardedPayload {
+  phase: ChipRulePhase;
+  awards: ChipAward[];
+  teamAwards?: TeamChipAward[];
+}
+
+export interface RoundFinishedPayload {
+  scores: { id: string; nickname: string; score: number; team?: number }[];
+  chipsAwarded: ChipAward[];
+  totalChips: { id: string; nickname: string; chips: number; matchPoints: number; handsWon: number }[];
+  trumpCard: string;
+  seed?: string;
+  seedHash?: string;
+  teamChipsAwarded?: TeamChipAward[];
+  teamStandings?: TeamStanding[];
+}
+
+export interface MatchStanding {
+  id: string;
+  nickname: string;
+  chips: number;
+  matchPoints: number;
+  handsWon: number;
+  team?: number;
+}
+
+export interface MatchFinishedPayload {
+  winners: MatchStanding[];
+  standings: MatchStanding[];
+  endCondition: MatchEndCondition;
+  tieBreak?: 'card_points' | 'sudden_death' | 'shared';
+  winCondition: WinCondition;
+  ratingChanges: RatingChange[];
+  winningTeams?: number[];
+  teamStandings?: TeamStanding[];
+}
+
+export interface ServerToClientEvents {
+  roomError: (error: RoomError) => void;
+  roomFull: () => void;
+  roomCreated: (payload: RoomCreatedPayload) => void;
+  roomJoined: (payload: RoomJoinedPayload) => void;
+  roomRejoined: (payload: RoomRejoinedPayload) => void;
+  playersUpdate: (players: PublicPlayer[]) => void;
+  gameState: (view: GameView) => void;
+  gameStarted: (payload: { seedHash?: string }) => void;
+  roomLog: (entry: RoomLogEntry) => void;
+  ownerChanged: (payload: { ownerId: string }) => void;
+  kicked: (payload: { roomId: string }) => void;
+  roomClosed: (payload: { roomId: string; reason: string }) => void;
+  serverNotice: (payload: { message: string; ts: number }) => void;
+  roomSettingsUpdated: (payload: RoomSettingsUpdatedPayload) => void;
+  lobbySnapshot: (entries: LobbyEntry[]) => void;
+  lobbyRoomUpdated: (entry: LobbyEntry) => void;
+  lobbyRoomRemoved: (payload: { roomId: string }) => void;
+  spectating: (payload: SpectatingPayload) => void;
+  spectatingEnded: (payload: { roomId: string }) => void;
+  spectatorModeChanged: (payload: { mode: SpectatorMode; spectatorDelayMs: number }) => void;
+  spectatorsUpdate: (spectators: { id: string; nickname: string }[]) => void;
+  playRejected: (payload: { card: unknown; code: PlayRejectionCode; message: string }) => void;
+  trickWon: (payload: { winnerId: string; winnerNickname: string; cards: TablePlay[]; roundNumber: number }) => void;
+  chipsAwarded: (payload: ChipsAwardedPayload) => void;
+  roundFinished: (payload: RoundFinishedPayload) => void;
+  suddenDeath: (payload: { sides: number[]; playerIds: string[]; condition: MatchEndCondition }) => void;
+  matchFinished: (payload: MatchFinishedPayload) => void;
+  matchAborted: (payload: { resetChips: boolean }) => void;
+  rematchVoteUpdate: (payload: { votes: string[]; needed: number }) => void;
+  playerAway: (payload: { playerId: string; nickname: string; missedTurns: number }) => void;
+  awayVoteUpdate: (payload: { targetPlayerId: string; action: AwayVoteAction; votes: number; needed: number }) => void;
+  chatRejected: (payload: { code: ChatRejectionCode; message: string }) => void;
+  mutedPlayersUpdate: (payload: { mutedPlayerIds: string[] }) => void;
+}
@@ -1,4 +1,9 @@
-import { GameState } from "./types";
+import { logger } from "./logger";
+import { createRng, generateSeed, hashSeed, Rng } from "./rng";
+import { ChipAward, GameMode, GameState, Player, PlayValidation, TeamChipAward, TeamStanding } from "./types";
+
+// Detalhe de cada jogada e vaza: só aparece com LOG_LEVEL=debug
+const log = logger.child({ scope: 'game' });
 
 const SUITS = ['S', 'H', 'D', 'C'];
 const VALUES = ['A', '2', '3', '4', '5', '6', '7', 'J', 'Q', 'K'];
@@ -21,17 +26,20 @@ export function createDeck(): string[] {
   return deck;
 }
 
-export function shuffleDeck(deck: string[]): string[] {
+export function shuffleDeck(deck: string[], rng: Rng = Math.random): string[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
-export function createGame(): GameState {
+export function createGame(mode: GameMode = 'ten_cards', teamMode: boolean = false): GameState {
   return {
+    mode,
+    teamMode,
+    teamChips: teamMode ? [0, 0] : undefined,
     players: [],
     table: [],
     turn: 0,
@@ -41,15 +49,29 @@ export function createGame(): GameState {
     isGameStarted: false,
     lastTrickWinnerId: undefined,
     lastTrickCards: undefined,
-    playedTrumpAByPlayerId: {},
-    capturedOppTrump7ByPlayerId: {},
+    tricks: [],
   };
 }
 
-export function startGame(game: GameState): GameState {
+// Com 3 jogadores no modo clássico retira-se um 2 para o baralho dividir por igual
+function createDeckForMode(mode: GameMode, numPlayers: number): string[] {
+  const deck = createDeck();
+  if (mode === 'classic' && numPlayers === 3) {
+    return deck.filter(c => c !== '2D');
+  }
+  return deck;
+}
+
+// Embaralhamento e escolha do trunfo vêm só da semente: mesma semente, mesmos jogadores e modo => mesma mão
+export function startGame(game: GameState, seed: string = generateSeed()): GameState {
   if (game.players.length < 2 || game.players.length > 4) return game;
+  if (game.teamMode && game.players.length !== 4) return game;
+  if (game.teamMode) game = assignTeams(game);
+  game = { ...game, seed, seedHash: hashSeed(seed) };
+  const rng = createRng(seed);
+  if (game.mode === 'classic') return startClassicGame(game, rng);
   
-  const shuffled = shuffleDeck(createDeck());
+  const shuffled = shuffleDeck(createDeck(), rng);
   // Não remover carta de trunfo do baralho; vamos escolher o trunfo de dentro das mãos
   const deck = [...shuffled];
   
@@ -77,7 +99,7 @@ export function startGame(game: GameState): GameState {
     candidates.push(...p.hand);
   }
   if (candidates.length > 0) {
-    const idx = Math.floor(Math.random() * candidates.length);
+    const idx = Math.floor(rng() * candidates.length);
     chosenTrumpCard = candidates[idx];
   } else {
     // fallback improvável
@@ -96,19 +118,115 @@ export function startGame(game: GameState): GameState {
   };
 }
 
-function getCardValue(card: string): string {
+// Modo clássico: 3 cartas por jogador; o trunfo é a carta do fundo do baralho,
+// fica virada e é a última a ser comprada
+function startClassicGame(game: GameState, rng: Rng): GameState {
+  const numPlayers = game.players.length;
+  const deck = shuffleDeck(createDeckForMode('classic', numPlayers), rng);
+  const cardsPerPlayer = 3;
+  const totalToDeal = numPlayers * cardsPerPlayer;
+
+  const hands: string[][] = Array.from({ length: numPlayers }, () => []);
+  for (let i = 0; i < totalToDeal; i++) {
+    hands[i % numPlayers].push(deck[i]);
+  }
+
+  const newPlayers = game.players.map((player, index) => {
+    return { ...player, hand: hands[index], score: 0, capturedCards: [], chips: player.chips ?? 0 };
+  });
+
+  const remainingDeck = deck.slice(totalToDeal);
+  const trumpCard = remainingDeck[remainingDeck.length - 1];
+
+  return {
+    ...game,
+    players: newPlayers,
+    trumpCard,
+    deck: remainingDeck,
+    turn: 0,
+    roundNumber: 1,
+    isGameStarted: true,
+    table: [],
+  };
+}
+
+// Duplas: assentos 0 e 2 formam a dupla 0; assentos 1 e 3 a dupla 1
+function assignTeams(game: GameState): GameState {
+  return {
+    ...game,
+    players: game.players.map((p, index) => ({ ...p, team: index % 2 })),
+    teamChips: game.teamChips ?? [0, 0],
+  };
+}
+
+export function getPlayerTeam(game: GameState, playerId: string): number | undefined {
+  if (!game.teamMode) return undefined;
+  return game.players.find(p => p.id === playerId)?.team;
+}
+
+// Dois jogadores são adversários se não forem a mesma pessoa nem parceiros de dupla
+export function areOpponents(game: GameState, playerIdA: string, playerIdB: string): boolean {
+  if (playerIdA === playerIdB) return false;
+  if (!game.teamMode) return true;
+  return getPlayerTeam(game, playerIdA) !== getPlayerTeam(game, playerIdB);
+}
+
+export function getTeamStandings(game: GameState): TeamStanding[] {
+  if (!game.teamMode) return [];
+  return [0, 1].map(team => {
+    const members = game.players.filter(p => p.team === team);
+    return {
+      team,
+      playerIds: members.map(p => p.id),
+      nicknames: members.map(p => p.nickname),
+      score: members.reduce((sum, p) => sum + p.score, 0),
+      capturedCount: members.reduce((sum, p) => sum + p.capturedCards.length, 0),
+      chips: game.teamChips?.[team] ?? 0,
+    };
+  });
+}
+
+// Soma as fichas individuais na dupla de cada jogador e acrescenta prêmios exclusivos da dupla
+export function creditTeamChips(game: GameState, awards: ChipAward[], teamOnlyAwards: TeamChipAward[] = []): { game: GameState; teamAwards: TeamChipAward[] } {
+  if (!game.teamMode) return { game, teamAwards: [] };
+  const byTeam = new Map<number, TeamChipAward>();
+  const add = (team: number, delta: number, reasons: string[]) => {
+    const entry = byTeam.get(team) || { team, delta: 0, reasons: [] };
+    entry.delta += delta;
+    entry.reasons.push(...reasons);
+    byTeam.set(team, entry);
+  };
+  for (const award of awards) {
+    const team = getPlayerTeam(game, award.playerId);
+    if (team !== undefined) add(team, award.delta, award.reasons);
+  }
+  for (const award of teamOnlyAwards) add(award.team, award.delta, award.reasons);
+
+  const teamChips = [...(game.teamChips ?? [0, 0])];
+  const teamAwards = Array.from(byTeam.values()).sort((a, b) => a.team - b.team);
+  for (const award of teamAwards) teamChips[award.team] = (teamChips[award.team] ?? 0) + award.delta;
+  return { game: { ...game, teamChips }, teamAwards };
+}
+
+// Fim da mão: ninguém tem cartas (e, no modo clássico, não há mais o que comprar)
+export function isHandOver(game: GameState): boolean {
+  if (game.mode === 'classic' && game.deck.length > 0) return false;
+  return game.players.every(p => p.hand.length === 0);
+}
+
+export function getCardValue(card: string): string {
   return card.slice(0, -1);
 }
 
-function getCardSuit(card: string): string {
+export function getCardSuit(card: string): string {
   return card.slice(-1);
 }
 
-function getTrumpSuit(card: string): string {
+export function getTrumpSuit(card: string): string {
   return card.slice(-1);
 }
 
-function getCardPoints(card: string): number {
+export function getCardPoints(card: string): number {
   const value = getCardValue(card);
   return CARD_POINTS[value] || 0;
 }
@@ -121,7 +239,7 @@ function isMarriage(sevenCard: string, aceCard: string): boolean {
 }
 
 // Ordem de valores: A > 7 > K > J > Q > 6 > 5 > 4 > 3 > 2
-function getCardOrder(value: string): number {
+export function getCardOrder(value: string): number {
   const order: Record<string, number> = {
     'A': 10,
     '7': 9,
@@ -142,12 +260,18 @@ export function determineRoundWinner(game: GameState): number | null {
   if (game.table.length < game.players.length) return null;
   
   const trumpSuit = getTrumpSuit(game.trumpCard);
+  const cards = game.table.map(p => p.card);
+  return findTrickLeader(cards, trumpSuit);
+}
+
+// Índice (na ordem jogada) da carta que está ganhando a vaza; serve também para vazas incompletas
+export function findTrickLeader(cards: string[], trumpSuit: string): number {
   let winner = 0;
-  let highestCard = game.table[0].card;
-  const firstCardSuit = getCardSuit(game.table[0].card);
+  let highestCard = cards[0];
+  const firstCardSuit = getCardSuit(cards[0]);
   
-  for (let i = 1; i < game.table.length; i++) {
-    const currentCard = game.table[i].card;
+  for (let i = 1; i < cards.length; i++) {
+    const currentCard = cards[i];
     const currentValue = getCardValue(currentCard);
     const highestValue = getCardValue(highestCard);
     
@@ -175,7 +299,7 @@ export function determineRoundWinner(game: GameState): number | null {
     if (!isCurrentTrump && isHighestTrump) {
       continue; // highest já é trunfo, não muda
     } 
-    // Ambos são trunfos: comparar pelo valor (ordem A > K > J > Q > 7 > 6 > 5 > 4 > 3 > 2)
+    // Ambos são trunfos: comparar pelo valor (ordem de getCardOrder: A > 7 > K > J > Q > 6 > 5 > 4 > 3 > 2)
     else if (isCurrentTrump && isHighestTrump) {
       if (getCardOrder(currentValue) > getCardOrder(highestValue)) {
         winner = i;
@@ -202,48 +326,67 @@ export function determineRoundWinner(game: GameState): number | null {
       // Se nem current nem highest seguem o naipe, não muda winner
     }
   }
-  console.log('[DetermineWinner]', {
-    table: game.table.map(p => p.card),
-    trumpSuit,
-    firstCardSuit,
-    winnerIndexInTable: winner,
-    winningCard: highestCard,
-  });
   return winner;
 }
 
-export function playCard(game: GameState, playerId: string, card: string): GameState {
-  if (!game.isGameStarted) return game;
-  
-  const playerIndex = game.players.findIndex((p) => p.id === playerId);
-  if (playerIndex === -1 || playerIndex !== game.turn) return game;
-  
-  const player = game.players[playerIndex];
-  
-  if (!player.hand.includes(card)) return game;
-  
+// Regras de naipe de uma carta da mão
+function checkSuitRules(game: GameState, player: Player, card: string): PlayValidation {
   // Regra: no PRIMEIRO lance da partida (primeira vaza, primeira carta), o jogador inicial deve jogar trunfo
-  if (game.roundNumber === 1 && game.table.length === 0) {
+  // (só no modo de 10 cartas; no clássico a saída é livre)
+  if (game.mode !== 'classic' && game.roundNumber === 1 && game.table.length === 0) {
     const trumpSuit = getTrumpSuit(game.trumpCard);
     const hasTrump = player.hand.some(c => getCardSuit(c) === trumpSuit);
     const playedSuit = getCardSuit(card);
     if (hasTrump && playedSuit !== trumpSuit) {
-      console.log(`Jogada inválida: primeira carta da partida deve ser do trunfo (${trumpSuit})`);
-      return game;
+      return { ok: false, code: 'must_lead_trump', message: `A primeira carta da partida deve ser do trunfo (${trumpSuit})` };
     }
   }
 
   // Validar se o jogador deve seguir o naipe da rodada (deve seguir se tiver; se não tiver, pode jogar qualquer carta)
-  if (game.table.length > 0) {
+  // No modo clássico a obrigação só vale depois que o baralho acaba
+  const mustFollowSuit = game.mode !== 'classic' || game.deck.length === 0;
+  if (mustFollowSuit && game.table.length > 0) {
     const firstCardSuit = getCardSuit(game.table[0].card);
     const playedCardSuit = getCardSuit(card);
     const hasInitialSuit = player.hand.some(c => getCardSuit(c) === firstCardSuit);
     
     if (hasInitialSuit && playedCardSuit !== firstCardSuit) {
-      console.log(`Jogada inválida: deve seguir o naipe ${firstCardSuit}`);
-      return game; // Bloquear jogada inválida
+      return { ok: false, code: 'must_follow_suit', message: `Você deve seguir o naipe ${firstCardSuit}` };
     }
   }
+  return { ok: true };
+}
+
+// Valida uma jogada com as mesmas regras de playCard, devolvendo o motivo da recusa
+export function validatePlay(game: GameState, playerId: string, card: string): PlayValidation {
+  if (!game.isGameStarted) return { ok: false, code: 'game_not_started', message: 'O jogo não começou' };
+  // Mesa completa aguardando resolveTrick: ninguém joga
+  if (game.table.length >= game.players.length) return { ok: false, code: 'trick_resolving', message: 'Aguarde a vaza ser recolhida' };
+
+  const playerIndex = game.players.findIndex((p) => p.id === playerId);
+  if (playerIndex === -1) return { ok: false, code: 'player_not_found', message: 'Jogador não está na partida' };
+  if (playerIndex !== game.turn) return { ok: false, code: 'not_your_turn', message: 'Não é a sua vez' };
+
+  const player = game.players[playerIndex];
+  if (!player.hand.includes(card)) return { ok: false, code: 'card_not_in_hand', message: 'Carta não está na sua mão' };
+  return checkSuitRules(game, player, card);
+}
+
+// Cartas que o jogador pode jogar agora (vazio se não for a vez dele)
+export function getLegalCards(game: GameState, playerId: string): string[] {
+  const player = game.players.find(p => p.id === playerId);
+  if (!player) return [];
+  return player.hand.filter(c => validatePlay(game, playerId, c).ok);
+}
+
+export function playCard(game: GameState, playerId: string, card: string): GameState {
+  const validation = validatePlay(game, playerId, card);
+  if (!validation.ok) {
+    log.debug('Jogada inválida', { playerId, card, code: validation.code });
+    return game; // Bloquear jogada inválida
+  }
+
+  const player = game.players[game.turn];
   
   const newPlayers = game.players.map(p => {
     if (p.id === playerId) {
@@ -258,14 +401,6 @@ export function playCard(game: GameState, playerId: string, card: string): GameS
     card 
   }];
 
-  // Sinaliza se o jogador jogou o Ás de trunfo
-  const trumpSuit = getTrumpSuit(game.trumpCard);
-  const trumpA = 'A' + trumpSuit;
-  const playedTrumpAByPlayerId = { ...(game.playedTrumpAByPlayerId || {}) };
-  if (card === trumpA) {
-    playedTrumpAByPlayerId[playerId] = true;
-  }
-  
   let newTurn = game.turn;
   let newRoundNumber = game.roundNumber;
   let updatedPlayers = newPlayers;
@@ -279,7 +414,6 @@ export function playCard(game: GameState, playerId: string, card: string): GameS
       table: newTable,
       turn: newTurn,
       roundNumber: newRoundNumber,
-      playedTrumpAByPlayerId,
     };
   } else {
     newTurn = (game.turn + 1) % game.players.length;
@@ -291,21 +425,20 @@ export function playCard(game: GameState, playerId: string, card: string): GameS
     table: newTable,
     turn: newTurn,
     roundNumber: newRoundNumber,
-    playedTrumpAByPlayerId,
   };
 }
 
 // Separate function to resolve a completed trick
 export function resolveTrick(game: GameState): GameState {
   if (game.table.length !== game.players.length) {
-    console.log('[resolveTrick] Mesa não está completa:', game.table.length, 'de', game.players.length);
+    log.debug('Vaza com a mesa incompleta', { table: game.table.length, players: game.players.length });
     return game;
   }
   
   const winnerIndex = determineRoundWinner(game);
   
   if (winnerIndex === null) {
-    console.log('[resolveTrick] Não foi possível determinar vencedor');
+    log.debug('Vaza sem vencedor', { table: game.table.map(p => p.card) });
     return game;
   }
   
@@ -319,32 +452,16 @@ export function resolveTrick(game: GameState): GameState {
   const absoluteWinnerPlayerIndex = (startingPlayerIndex + winnerIndex) % playersCount;
   const winner = game.players[absoluteWinnerPlayerIndex];
   
-  console.log('[resolveTrick] Cálculo do vencedor:', {
-    currentTurn: game.turn,
-    lastPlayerIndex,
-    startingPlayerIndex,
-    winnerIndexInTable: winnerIndex,
-    absoluteWinnerPlayerIndex,
-    winnerId: winner.id,
-    winnerNickname: winner.nickname
-  });
-  
-  console.log('[Trick Map]', {
-    table: game.table.map(p => p.card),
-    winnerIndexInTable: winnerIndex,
-    startingPlayerIndex,
-    lastPlayerIndex,
-    absoluteWinnerPlayerIndex,
-    winnerId: winner.id,
-  });
-  
   // Capturar todas as cartas da mesa
   const capturedCards = game.table.map(play => play.card);
   const roundPoints = game.table.reduce((sum, play) => sum + getCardPoints(play.card), 0);
-  console.log('[Trick End]', {
-    tableCards: capturedCards,
+  log.debug('Vaza recolhida', {
+    table: capturedCards,
+    trumpSuit: getTrumpSuit(game.trumpCard),
+    startingPlayerIndex,
+    winnerIndexInTable: winnerIndex,
+    playerId: winner.id,
     points: roundPoints,
-    winner: winner.nickname,
   });
   
   const updatedPlayers = game.players.map(p => {
@@ -358,28 +475,38 @@ export function resolveTrick(game: GameState): GameState {
     return p;
   });
 
-  // Se o 7 de trunfo foi jogado por um adversário nesta vaza e o vencedor capturou, marcar flag
-  const trumpSuit = getTrumpSuit(game.trumpCard);
-  const trump7 = '7' + trumpSuit;
-  const sevenPlay = game.table.find(t => t.card === trump7);
-  const capturedOppTrump7ByPlayerId = { ...(game.capturedOppTrump7ByPlayerId || {}) };
-  if (sevenPlay && sevenPlay.playerId !== winner.id) {
-    capturedOppTrump7ByPlayerId[winner.id] = true;
-  }
-  
   const newTurn = absoluteWinnerPlayerIndex;
   const newRoundNumber = game.roundNumber + 1;
+
+  // Modo clássico: cada jogador compra uma carta, começando pelo vencedor da vaza
+  let deck = game.deck;
+  let playersAfterDraw = updatedPlayers;
+  if (game.mode === 'classic' && deck.length > 0) {
+    const drawn = drawAfterTrick(updatedPlayers, deck, absoluteWinnerPlayerIndex);
+    deck = drawn.deck;
+    playersAfterDraw = drawn.players;
+  }
   
   return { 
     ...game, 
-    players: updatedPlayers, 
+    players: playersAfterDraw, 
+    deck,
     table: [], 
     turn: newTurn, 
     roundNumber: newRoundNumber,
     lastTrickWinnerId: winner.id,
     lastTrickCards: game.table,
-    capturedOppTrump7ByPlayerId,
-    playedTrumpAByPlayerId: game.playedTrumpAByPlayerId, // Preserve playedTrumpAByPlayerId
+    tricks: [...(game.tricks || []), { winnerId: winner.id, cards: game.table }],
   };
 }
 
+// Compra em ordem a partir do vencedor; a última carta do baralho é o trunfo virado
+function drawAfterTrick(players: Player[], deck: string[], winnerIndex: number): { players: Player[]; deck: string[] } {
+  const remaining = [...deck];
+  const newPlayers = players.map(p => ({ ...p, hand: [...p.hand] }));
+  for (let offset = 0; offset < newPlayers.length && remaining.length > 0; offset++) {
+    const idx = (winnerIndex + offset) % newPlayers.length;
+    newPlayers[idx].hand.push(remaining.shift() as string);
+  }
+  return { players: newPlayers, deck: remaining };
+}
@@ -0,0 +1,99 @@
+import { createGame, getCardPoints, playCard, resolveTrick, startGame } from "./gameLogic";
+import { ChipAward, ChipRulePhase, GameState, HandEvent, HandHistory, TeamChipAward } from "./types";
+
+// Abre o histórico de uma mão recém-distribuída; `before` é o estado antes de startGame
+export function beginHandHistory(roomId: string, matchNumber: number, handNumber: number, before: GameState, dealt: GameState): HandHistory {
+  const ts = Date.now();
+  return {
+    roomId,
+    matchNumber,
+    handNumber,
+    startedAt: ts,
+    mode: dealt.mode,
+    teamMode: dealt.teamMode,
+    seed: dealt.seed ?? '',
+    seedHash: dealt.seedHash ?? '',
+    players: before.players.map((p, seat) => ({ id: p.id, nickname: p.nickname, seat, chips: p.chips ?? 0 })),
+    teamChips: before.teamChips ? [...before.teamChips] : undefined,
+    events: [
+      {
+        type: 'deal',
+        ts,
+        hands: dealt.players.map((p, seat) => ({ playerId: p.id, seat, cards: [...p.hand] })),
+        deckCount: dealt.deck.length,
+      },
+      { type: 'trump', ts, trumpCard: dealt.trumpCard },
+    ],
+  };
+}
+
+export function recordPlay(history: HandHistory, game: GameState, playerId: string, card: string) {
+  history.events.push({
+    type: 'play',
+    ts: Date.now(),
+    playerId,
+    seat: game.players.findIndex(p => p.id === playerId),
+    card,
+    roundNumber: game.roundNumber,
+  });
+}
+
+// Chamado logo após resolveTrick, com o estado já resolvido
+export function recordTrick(history: HandHistory, game: GameState) {
+  const cards = game.lastTrickCards || [];
+  const winnerId = game.lastTrickWinnerId || '';
+  history.events.push({
+    type: 'trick',
+    ts: Date.now(),
+    winnerId,
+    winnerSeat: game.players.findIndex(p => p.id === winnerId),
+    cards,
+    points: cards.reduce((sum, t) => sum + getCardPoints(t.card), 0),
+    roundNumber: game.roundNumber - 1,
+  });
+}
+
+export function recordChips(history: HandHistory, phase: ChipRulePhase, awards: ChipAward[], teamAwards?: TeamChipAward[]) {
+  history.events.push({ type: 'chips', ts: Date.now(), phase, awards, teamAwards });
+}
+
+function applyChipEvent(game: GameState, event: Extract<HandEvent, { type: 'chips' }>): GameState {
+  const players = game.players.map(p => {
+    const delta = event.awards.filter(a => a.playerId === p.id).reduce((sum, a) => sum + a.delta, 0);
+    return delta > 0 ? { ...p, chips: (p.chips ?? 0) + delta } : p;
+  });
+  let teamChips = game.teamChips;
+  if (teamChips && event.teamAwards) {
+    teamChips = [...teamChips];
+    for (const award of event.teamAwards) teamChips[award.team] = (teamChips[award.team] ?? 0) + award.delta;
+  }
+  return { ...game, players, teamChips };
+}
+
+// Reconstrói o GameState depois dos `step` primeiros eventos, passando tudo de novo por gameLogic
+export function replayHand(history: HandHistory, step: number = history.events.length): GameState {
+  let game = createGame(history.mode, history.teamMode);
+  game.players = history.players.map(p => ({ id: p.id, nickname: p.nickname, hand: [], score: 0, capturedCards: [], chips: p.chips }));
+  if (history.teamChips) game.teamChips = [...history.teamChips];
+
+  for (const event of history.events.slice(0, Math.max(0, step))) {
+    switch (event.type) {
+      case 'deal':
+        game = startGame(game, history.seed);
+        break;
+      case 'trump':
+        // O trunfo sai da semente junto com a distribuição
+        break;
+      case 'play':
+        game = playCard(game, event.playerId, event.card);
+        break;
+      case 'trick':
+        game = resolveTrick(game);
+        break;
+      case 'chips':
+        game = applyChipEvent(game, event);
+        break;
+    }
+  }
+  return game;
+}
@@ -1,8 +1,25 @@
 import express from "express";
 import { createServer } from "http";
 import { Server } from "socket.io";
-import { createGame, playCard, startGame, resolveTrick } from "./gameLogic";
-import { GameState, Room, RoomMeta } from "./types";
+import { createGame } from "./gameLogic";
+import { buildGameView, buildSpectatorView, toPublicPlayers } from "./projection";
+import { createSession, deleteSessionForPlayer, generatePlayerId, getSession, listSessionsForRoom, restoreSession, sessionRoomId } from "./sessions";
+import { createRoomStore } from "./storage";
+import { chooseBotCard } from "./bots";
+import { AVATARS, createGuestAccount, getAccount, getAccountByToken, loadAccounts, loginAccount, toPublicProfile, updateProfile, upgradeAccount } from "./accounts";
+import { isChipRulePreset, resolveChipRules } from "./chipRules";
+import { CHAT_MAX_LENGTH, ChatRejectionCode, checkChatAuthor, createRateLimiter, filterChatText, isQuickReaction } from "./chat";
+import { parseTieBreaker, parseWinCondition } from "./matchRules";
+import { getAccountRatings, getLeaderboard, getRatedMatch, listLadders, loadRatings } from "./ratings";
+import { buildLobbyEntry, findQuickMatchEntry, findQuickMatchRoom, listLobby } from "./lobby";
+import { replayHand } from "./history";
+import { createRoomController, RoomController } from "./roomController";
+import { logger } from "./logger";
+import { AdminRoomSummary, createAdminRouter } from "./admin";
+import { gameMetrics, metrics } from "./metrics";
+import { createBackplane, createBackplaneAdapter, createEventRouter, createInstanceLink, generateInstanceId, InstanceMessage, RemoteSocket } from "./cluster";
+import { clientEventSchemas, ClientEventName, ClientToServerEvents, RoomErrorCode, ServerToClientEvents } from "./events";
+import { Account, BotDifficulty, ChipRuleOverrides, ChipRuleSetting, CreateRoomOptions, GameMode, GameState, HandHistory, LobbyEntry, PlayValidation, Room, RoomLogEntry, RoomMeta, Spectator, SpectatorMode } from "./types";
 
 const app = express();
 const httpServer = createServer(app);
@@ -25,7 +42,7 @@ function isOriginAllowed(origin: string | undefined): boolean {
   return false;
 }
 
-const io = new Server(httpServer, { 
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, { 
   path: '/bisca-socket',
   cors: { 
     origin: (origin, callback) => {
@@ -34,8 +51,9 @@ const io = new Server(httpServer, {
     methods: ['GET', 'POST'],
     credentials: true
   },
-  transports: ['polling'],
-  allowUpgrades: false,
+  // Polling com upgrade para WebSocket: com várias réplicas o polling exige sessão fixa no balanceador, o WebSocket não
+  transports: ['polling', 'websocket'],
+  allowUpgrades: true,
   pingTimeout: 120000,
   pingInterval: 20000
 });
@@ -56,6 +74,8 @@ app.use((req, res, next) => {
   next();
 });
 
+app.use(express.json({ limit: '16kb' }));
+
 app.get("/", (req, res) => {
   res.json({ status: "ok", message: "Bisca Backend is running" });
 });
@@ -63,463 +83,1517 @@ app.get("/", (req, res) => {
 app.get("/health", (req, res) => {
   res.json({ 
     status: "ok", 
+    instanceId: INSTANCE_ID,
+    draining,
     timestamp: new Date().toISOString(),
     allowedOrigins 
   });
 });
 
+// Métricas no formato do Prometheus; salas e sockets contam só esta instância
+metrics.gauge('bisca_active_rooms', 'Salas abertas nesta instância', () => rooms.size);
+metrics.gauge('bisca_connected_sockets', 'Sockets conectados nesta instância', () => io.sockets.sockets.size);
+
+app.get("/metrics", (req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
 // Multi-room state
 const rooms = new Map<string, Room>();
 const socketIdToRoomId = new Map<string, string>();
-const roomLogs = new Map<string, { ts: number; text: string; type?: string }[]>();
+const roomLogs = new Map<string, RoomLogEntry[]>();
+const socketIdToPlayerId = new Map<string, string>();
+const playerIdToSocketId = new Map<string, string>();
+const reconnectTimers = new Map<string, NodeJS.Timeout>();
+const botTimers = new Map<string, NodeJS.Timeout>(); // por sala
+const controllers = new Map<string, RoomController>(); // por sala: fluxo da partida e histórico das mãos
+const roomStore = createRoomStore();
+const pendingSaves = new Set<string>();
+const spectatorTimers = new Map<string, Set<NodeJS.Timeout>>(); // por sala: visões atrasadas ainda não enviadas
+const spectatorsByRoom = new Map<string, Map<string, Spectator>>(); // sala -> socket id -> espectador
+const socketIdToSpectatedRoomId = new Map<string, string>();
+const lastLobbyEntries = new Map<string, string>(); // sala pública -> última entrada enviada (JSON)
+
+// Cluster: cada sala vive em uma instância (a dona); sockets conectados em outra têm os eventos da sala encaminhados
+const INSTANCE_ID = process.env.INSTANCE_ID || generateInstanceId();
+const log = logger.child({ scope: 'server', instanceId: INSTANCE_ID });
+const ROOM_LEASE_MS = Number(process.env.ROOM_LEASE_MS) || 30000;
+const backplane = createBackplane();
+io.adapter(createBackplaneAdapter(backplane));
+const cluster = createInstanceLink(backplane, INSTANCE_ID, handleInstanceMessage, { leaseMs: ROOM_LEASE_MS });
+const router = createEventRouter(io, cluster, {
+  roomOf: eventRoomId,
+  isLocalRoom: roomId => rooms.has(roomId),
+  registerHandlers: registerClientHandlers,
+});
+const remoteLobby = new Map<string, { origin: string; entry: LobbyEntry }>(); // salas públicas de outras instâncias
+
+// Tempo que um assento fica reservado após a queda da conexão
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 60000;
+// Pausa antes de um bot jogar, para a jogada ser visível na mesa
+const BOT_MOVE_DELAY_MS = 900;
+
+// Atraso da visão com mãos abertas para espectadores
+const SPECTATOR_DELAY_MS = Number(process.env.SPECTATOR_DELAY_MS) || 30000;
+// Chat e reações: no máximo CHAT_RATE_LIMIT mensagens por socket a cada CHAT_RATE_WINDOW_MS
+const CHAT_RATE_LIMIT = Number(process.env.CHAT_RATE_LIMIT) || 5;
+const CHAT_RATE_WINDOW_MS = Number(process.env.CHAT_RATE_WINDOW_MS) || 10000;
+const chatLimiter = createRateLimiter(CHAT_RATE_LIMIT, CHAT_RATE_WINDOW_MS);
+// Contas de convidado: no máximo GUEST_RATE_LIMIT criações por IP a cada GUEST_RATE_WINDOW_MS
+const GUEST_RATE_LIMIT = Number(process.env.GUEST_RATE_LIMIT) || 5;
+const GUEST_RATE_WINDOW_MS = Number(process.env.GUEST_RATE_WINDOW_MS) || 60000;
+const guestLimiter = createRateLimiter(GUEST_RATE_LIMIT, GUEST_RATE_WINDOW_MS);
+// Canal do Socket.IO com os sockets inscritos no lobby
+const LOBBY_CHANNEL = '__lobby__';
+// Drenagem (API de administração): a instância para de criar salas antes de um deploy
+let draining = false;
+
+// O que os handlers usam de um socket: o socket real ou o representante de um socket de outra instância
+type ClientSocket = RemoteSocket;
 
 function generateRoomId(): string {
   return Math.random().toString(36).slice(2, 8);
 }
 
 function cleanupDisconnectedPlayers() {
-  const connectedSocketIds = new Set(Array.from(io.sockets.sockets.keys()));
   for (const [roomId, room] of rooms.entries()) {
-    const validPlayers = room.game.players.filter(p => connectedSocketIds.has(p.id));
-    if (validPlayers.length !== room.game.players.length) {
-      room.game.players = validPlayers;
-      if (room.game.players.length === 0) {
-        rooms.delete(roomId);
-      } else if (room.meta.isGameStarted && room.game.players.length < 2) {
-        room.meta.isGameStarted = false;
-        room.game = createGame();
-        io.to(roomId).emit("gameState", room.game);
+    for (const p of room.game.players) {
+      if (p.isBot || p.connected === false) continue;
+      const socketId = playerIdToSocketId.get(p.id);
+      if (!socketId || !isSocketConnected(socketId)) {
+        markPlayerDisconnected(roomId, p.id);
       }
-      io.to(roomId).emit("playersUpdate", room.game.players);
     }
   }
 }
 
-function addRoomLog(roomId: string, text: string, type: string = 'system') {
+function bindSocketToPlayer(socket: ClientSocket, roomId: string, playerId: string) {
+  // Quem assistia e senta para jogar deixa de ser espectador
+  removeSpectator(socket.id);
+  const previousSocketId = playerIdToSocketId.get(playerId);
+  if (previousSocketId && previousSocketId !== socket.id) {
+    // Socket antigo ainda pendurado (ex.: polling que não caiu): desvincular antes de derrubar, em qualquer instância
+    socketIdToPlayerId.delete(previousSocketId);
+    socketIdToRoomId.delete(previousSocketId);
+    io.in(previousSocketId).disconnectSockets(true);
+  }
+  const timer = reconnectTimers.get(playerId);
+  if (timer) {
+    clearTimeout(timer);
+    reconnectTimers.delete(playerId);
+  }
+  socket.join(roomId);
+  socketIdToRoomId.set(socket.id, roomId);
+  socketIdToPlayerId.set(socket.id, playerId);
+  playerIdToSocketId.set(playerId, socket.id);
+  router.updateRoute(socket.id, roomId);
+}
+
+function unbindPlayerSocket(playerId: string) {
+  const socketId = playerIdToSocketId.get(playerId);
+  if (!socketId) return;
+  socketIdToPlayerId.delete(socketId);
+  socketIdToRoomId.delete(socketId);
+  playerIdToSocketId.delete(playerId);
+  router.updateRoute(socketId);
+}
+
+// Mantém assento, mão, pontos e fichas; remove o jogador só após o período de tolerância
+function markPlayerDisconnected(roomId: string, playerId: string) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const player = room.game.players.find(p => p.id === playerId);
+  if (!player) return;
+  unbindPlayerSocket(playerId);
+  room.game.players = room.game.players.map(p => p.id === playerId ? { ...p, connected: false } : p);
+  if (!reconnectTimers.has(playerId)) {
+    reconnectTimers.set(playerId, setTimeout(() => {
+      reconnectTimers.delete(playerId);
+      // Com partida em andamento um bot assume o assento; no lobby o assento é liberado
+      if (rooms.get(roomId)?.meta.isGameStarted) {
+        replaceWithBot(roomId, playerId);
+      } else {
+        removePlayer(roomId, playerId);
+      }
+    }, RECONNECT_GRACE_MS));
+  }
+  addRoomLog(roomId, `${player.nickname} desconectou. Aguardando reconexão.`);
+  emitPlayersUpdate(roomId);
+}
+
+// Desfaz o que liga o jogador ao assento: prazo de reconexão, sessão e socket
+function releasePlayer(playerId: string) {
+  const timer = reconnectTimers.get(playerId);
+  if (timer) {
+    clearTimeout(timer);
+    reconnectTimers.delete(playerId);
+  }
+  deleteSessionForPlayer(playerId);
+  unbindPlayerSocket(playerId);
+}
+
+function removePlayer(roomId: string, playerId: string) {
+  releasePlayer(playerId);
+
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const beforeCount = room.game.players.length;
+  room.game.players = room.game.players.filter(p => p.id !== playerId);
+  if (room.game.players.length === beforeCount) return;
+
+  log.info('Jogador removido da sala', { roomId, playerId, players: room.game.players.length });
+
+  if (!room.game.players.some(p => !p.isBot)) {
+    deleteRoom(roomId);
+    log.info('Sala sem jogadores humanos removida', { roomId });
+    return;
+  }
+  ensureOwner(roomId);
+  emitPlayersUpdate(roomId);
+  const controller = controllers.get(roomId);
+  controller?.dropRematchVote(playerId);
+  // Sem adversário a partida não continua: volta ao lobby com quem ficou
+  if (room.meta.isGameStarted && room.game.players.length < 2) controller?.returnToLobby(false);
+}
+
+// Bot assume o assento mantendo mão, pontos e fichas
+function replaceWithBot(roomId: string, playerId: string) {
+  const timer = reconnectTimers.get(playerId);
+  if (timer) {
+    clearTimeout(timer);
+    reconnectTimers.delete(playerId);
+  }
+  deleteSessionForPlayer(playerId);
+  unbindPlayerSocket(playerId);
+
+  const room = rooms.get(roomId);
+  const player = room?.game.players.find(p => p.id === playerId);
+  const controller = controllers.get(roomId);
+  if (!room || !player || !controller) return;
+  controller.replaceWithBot(playerId);
+
+  if (!room.game.players.some(p => !p.isBot)) {
+    deleteRoom(roomId);
+    log.info('Sala sem jogadores humanos removida', { roomId });
+    return;
+  }
+  log.info('Bot assumiu o assento', { roomId, playerId });
+  addRoomLog(roomId, `Um bot assumiu o lugar de ${player.nickname}.`);
+  ensureOwner(roomId);
+  emitPlayersUpdate(roomId);
+  emitGameState(roomId);
+  scheduleBotTurn(roomId);
+}
+
+// Se o dono saiu (ou virou bot), passa a sala ao primeiro humano, de preferência conectado
+function ensureOwner(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const humans = room.game.players.filter(p => !p.isBot);
+  if (humans.some(p => p.id === room.meta.ownerId)) return;
+  const next = humans.find(p => p.connected !== false) || humans[0];
+  if (!next) return;
+  setOwner(roomId, next.id);
+}
+
+function setOwner(roomId: string, playerId: string) {
+  const room = rooms.get(roomId);
+  const player = room?.game.players.find(p => p.id === playerId);
+  if (!room || !player) return;
+  room.meta.ownerId = playerId;
+  // Dono não pode ficar silenciado
+  room.meta.mutedPlayerIds = room.meta.mutedPlayerIds?.filter(id => id !== playerId);
+  log.info('Novo dono da sala', { roomId, playerId });
+  addRoomLog(roomId, `${player.nickname} agora é o dono da sala.`);
+  io.to(roomId).emit('ownerChanged', { ownerId: playerId });
+}
+
+// Expulsa um jogador: o assento é liberado e, com partida em andamento, ela volta ao lobby (fichas mantidas).
+// Bot no lugar fica para quem caiu ou foi substituído por votação.
+function kickPlayer(roomId: string, playerId: string) {
+  const room = rooms.get(roomId);
+  const controller = controllers.get(roomId);
+  if (!room || !controller) return;
+  const socketId = playerIdToSocketId.get(playerId);
+  if (!controller.kick(playerId).ok) return;
+  releasePlayer(playerId);
+  log.info('Jogador expulso', { roomId, playerId });
+  if (socketId) {
+    io.to(socketId).emit('kicked', { roomId });
+    io.in(socketId).socketsLeave(roomId);
+  }
+  if (!room.game.players.some(p => !p.isBot)) {
+    deleteRoom(roomId);
+    log.info('Sala sem jogadores humanos removida', { roomId });
+    return;
+  }
+  ensureOwner(roomId);
+}
+
+// Cancela a jogada de bot agendada; o tempo da vez e a vaza ficam com o controlador
+function clearBotTimer(roomId: string) {
+  const timer = botTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    botTimers.delete(roomId);
+  }
+}
+
+// Evento para todos os sockets da sala, em qualquer instância
+function emitToRoom<E extends keyof ServerToClientEvents>(roomId: string, message: [event: E, ...args: Parameters<ServerToClientEvents[E]>]) {
+  const [event, ...args] = message;
+  io.to(roomId).emit(event, ...args);
+}
+
+// Liga o controlador da partida à sala: efeitos viram eventos do Socket.IO, log e gravação
+function attachController(room: Room, histories: HandHistory[] = []): RoomController {
+  const roomId = room.meta.id;
+  const controller = createRoomController(room, {
+    broadcast: (...message) => emitToRoom(roomId, message),
+    stateChanged: () => {
+      emitGameState(roomId);
+      scheduleBotTurn(roomId);
+    },
+    playersChanged: () => emitPlayersUpdate(roomId),
+    log: text => addRoomLog(roomId, text),
+    phaseChanged: phase => {
+      // Fora da partida não há vez para o bot jogar
+      if (phase === 'lobby' || phase === 'match_finished') clearBotTimer(roomId);
+    },
+  }, histories);
+  controllers.set(roomId, controller);
+  return controller;
+}
+
+function deleteRoom(roomId: string) {
+  clearBotTimer(roomId);
+  clearSpectatorTimers(roomId);
+  controllers.get(roomId)?.dispose();
+  controllers.delete(roomId);
+  for (const socketId of spectatorsByRoom.get(roomId)?.keys() || []) {
+    socketIdToSpectatedRoomId.delete(socketId);
+  }
+  spectatorsByRoom.delete(roomId);
+  rooms.delete(roomId);
+  roomLogs.delete(roomId);
+  syncLobbyEntry(roomId);
+  cluster.releaseRoom(roomId);
+  roomStore.delete(roomId).catch(error => log.error('Erro ao apagar sala', { roomId, error }));
+}
+
+// Agenda a gravação da sala; várias mudanças no mesmo tick viram uma escrita só
+function saveRoom(roomId: string) {
+  if (pendingSaves.has(roomId)) return;
+  pendingSaves.add(roomId);
+  setImmediate(() => {
+    pendingSaves.delete(roomId);
+    const room = rooms.get(roomId);
+    if (!room) return;
+    roomStore.save({
+      meta: room.meta,
+      game: room.game,
+      logs: roomLogs.get(roomId) || [],
+      sessions: listSessionsForRoom(roomId),
+      histories: controllers.get(roomId)?.histories || [],
+      savedAt: Date.now(),
+    }).catch(error => log.error('Erro ao salvar sala', { roomId, error }));
+  });
+}
+
+// Recarrega as salas salvas; jogadores humanos voltam como desconectados e têm o período de tolerância para reconectar
+async function restoreRooms() {
+  const stored = await roomStore.loadAll();
+  let restored = 0;
+  for (const saved of stored) {
+    const roomId = saved.meta.id;
+    // Com armazenamento compartilhado, sala com dona viva fica com ela
+    if (!(await cluster.claimRoom(roomId))) {
+      log.info('Sala pertence a outra instância; não restaurada', { roomId });
+      continue;
+    }
+    restored++;
+    const room: Room = { meta: saved.meta, game: saved.game };
+    rooms.set(roomId, room);
+    roomLogs.set(roomId, saved.logs || []);
+    const controller = attachController(room, saved.histories || []);
+    (saved.sessions || []).forEach(restoreSession);
+    for (const p of saved.game.players) {
+      if (!p.isBot) markPlayerDisconnected(roomId, p.id);
+    }
+    controller.resume();
+    scheduleBotTurn(roomId);
+  }
+  if (restored > 0) log.info('Salas restauradas', { count: restored });
+}
+
+// Agenda a jogada do bot da vez, se houver; no máximo um agendamento por sala
+function scheduleBotTurn(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || controllers.get(roomId)?.phase !== 'playing' || botTimers.has(roomId)) return;
+  const current = room.game.players[room.game.turn];
+  if (!current?.isBot) return;
+
+  botTimers.set(roomId, setTimeout(() => {
+    botTimers.delete(roomId);
+    try {
+      const currentRoom = rooms.get(roomId);
+      const player = currentRoom?.game.players[currentRoom.game.turn];
+      if (!currentRoom || !player || player.id !== current.id || !player.isBot) return;
+      const card = chooseBotCard(currentRoom.game, player.id, player.botDifficulty ?? 'random');
+      if (card) controllers.get(roomId)?.play(player.id, card);
+    } catch (error) {
+      log.error('Erro na jogada do bot', { roomId, playerId: current.id, error });
+    }
+  }, BOT_MOVE_DELAY_MS));
+}
+
+function addRoomLog(roomId: string, text: string, type: string = 'system', author?: { playerId: string; nickname: string }) {
   const list = roomLogs.get(roomId) || [];
-  const entry = { ts: Date.now(), text, type };
+  const entry: RoomLogEntry = { ts: Date.now(), text, type, ...author };
   list.push(entry);
   // keep last 200
   if (list.length > 200) list.shift();
   roomLogs.set(roomId, list);
   io.to(roomId).emit('roomLog', entry);
+  saveRoom(roomId);
+}
+
+// Envia a cada socket da sala a sua própria visão do jogo (nunca o estado completo)
+function emitGameState(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  saveRoom(roomId);
+  syncLobbyEntry(roomId);
+  // Sockets da sala pelos assentos e espectadores: o adapter só lista os sockets desta instância
+  const spectators = spectatorsByRoom.get(roomId);
+  const socketIds = [
+    ...room.game.players.map(p => playerIdToSocketId.get(p.id)).filter((id): id is string => !!id),
+    ...(spectators?.keys() || []),
+  ];
+  const delayedFull = room.meta.spectatorMode === 'delayed_full';
+  for (const socketId of socketIds) {
+    // No modo com atraso, espectadores recebem só a visão atrasada
+    if (delayedFull && spectators?.has(socketId)) continue;
+    io.to(socketId).emit('gameState', buildGameView(room.game, socketIdToPlayerId.get(socketId) ?? null));
+  }
+  if (delayedFull && spectators && spectators.size > 0) {
+    const fullView = buildSpectatorView(room.game, true);
+    const publicView = buildSpectatorView(room.game, false);
+    const handSeedHash = room.game.seedHash;
+    const timers = spectatorTimers.get(roomId) || new Set();
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      if (timers.size === 0 && spectatorTimers.get(roomId) === timers) spectatorTimers.delete(roomId);
+      // Mãos abertas só quando aquela mão já acabou: um jogador da mesa assistindo de outra aba
+      // (sem sessão nem conta, não dá para reconhecê-lo) veria as cartas dos adversários ainda em jogo
+      const view = isHandInProgress(roomId, handSeedHash) ? publicView : fullView;
+      for (const socketId of spectatorsByRoom.get(roomId)?.keys() || []) {
+        io.to(socketId).emit('gameState', view);
+      }
+    }, SPECTATOR_DELAY_MS);
+    timer.unref();
+    timers.add(timer);
+    spectatorTimers.set(roomId, timers);
+  }
+}
+
+// A mão da semente dada ainda está sendo jogada na sala
+function isHandInProgress(roomId: string, seedHash: string | undefined): boolean {
+  const room = rooms.get(roomId);
+  return !!room?.meta.isGameStarted && room.game.seedHash === seedHash;
+}
+
+// Descarta as visões atrasadas pendentes: sala encerrada, sem espectadores ou fora do modo com atraso
+function clearSpectatorTimers(roomId: string) {
+  for (const timer of spectatorTimers.get(roomId) || []) clearTimeout(timer);
+  spectatorTimers.delete(roomId);
+}
+
+function sendGameState(socket: ClientSocket, room: Room) {
+  socket.emit('gameState', buildGameView(room.game, socketIdToPlayerId.get(socket.id) ?? null));
+}
+
+function emitRoomError(socket: ClientSocket, code: RoomErrorCode, message: string) {
+  socket.emit('roomError', { code, message });
+}
+
+// Resposta de uma jogada: pelo ack, se o cliente mandou um; senão recusas chegam como 'playRejected'
+function replyPlay(socket: ClientSocket, card: unknown, ack: unknown, result: PlayValidation) {
+  if (!result.ok) gameMetrics.rejectedPlays.inc({ reason: result.code });
+  if (typeof ack === 'function') ack(result);
+  else if (!result.ok) socket.emit('playRejected', { card, code: result.code, message: result.message });
+}
+
+// Registra o handler de um evento do cliente; o payload só chega ao handler se passar pelo schema do evento.
+// Payload inválido vira 'roomError' com código invalid_payload (ou, no playCard, a recusa invalid_card).
+function onClientEvent<E extends ClientEventName>(socket: ClientSocket, event: E, handler: ClientToServerEvents[E]) {
+  const schema = clientEventSchemas[event] as (value: unknown, path: string) => { ok: true; value: unknown } | { ok: false; error: string };
+  const listener = (payload: unknown, ...rest: unknown[]) => {
+    const parsed = schema(payload, event);
+    if (!parsed.ok) {
+      log.warn('Payload inválido', { socketId: socket.id, event, reason: parsed.error });
+      if (event === 'playCard') {
+        replyPlay(socket, payload, rest[0], { ok: false, code: 'invalid_card', message: 'Carta inválida' });
+      } else {
+        emitRoomError(socket, 'invalid_payload', `Dados inválidos (${parsed.error})`);
+      }
+      return;
+    }
+    (handler as (...args: unknown[]) => void)(parsed.value, ...rest);
+  };
+  // O listener recebe o payload cru; o tipo do evento só vale depois da validação
+  socket.on(event, listener);
+}
+
+function emitSpectatorsUpdate(roomId: string) {
+  const spectators = Array.from(spectatorsByRoom.get(roomId)?.values() || []);
+  io.to(roomId).emit('spectatorsUpdate', spectators.map(s => ({ id: s.id, nickname: s.nickname })));
+}
+
+function removeSpectator(socketId: string) {
+  const roomId = socketIdToSpectatedRoomId.get(socketId);
+  if (!roomId) return;
+  socketIdToSpectatedRoomId.delete(socketId);
+  const spectators = spectatorsByRoom.get(roomId);
+  spectators?.delete(socketId);
+  if (spectators && spectators.size === 0) {
+    spectatorsByRoom.delete(roomId);
+    clearSpectatorTimers(roomId);
+  }
+  io.in(socketId).socketsLeave(roomId);
+  router.updateRoute(socketId);
+  emitSpectatorsUpdate(roomId);
+}
+
+function emitPlayersUpdate(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  io.to(roomId).emit('playersUpdate', toPublicPlayers(room.game.players));
+  saveRoom(roomId);
+  syncLobbyEntry(roomId);
+}
+
+// Avisa os inscritos no lobby quando a entrada de uma sala pública muda ou a sala sai da lista
+function syncLobbyEntry(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || !room.meta.isPublic) {
+    if (lastLobbyEntries.delete(roomId)) {
+      io.to(LOBBY_CHANNEL).emit('lobbyRoomRemoved', { roomId });
+      cluster.broadcast({ type: 'lobbyEntry', origin: INSTANCE_ID, roomId, entry: null });
+    }
+    return;
+  }
+  const entry = buildLobbyEntry(room);
+  const serialized = JSON.stringify(entry);
+  if (lastLobbyEntries.get(roomId) === serialized) return;
+  lastLobbyEntries.set(roomId, serialized);
+  io.to(LOBBY_CHANNEL).emit('lobbyRoomUpdated', entry);
+  cluster.broadcast({ type: 'lobbyEntry', origin: INSTANCE_ID, roomId, entry });
+}
+
+// Salas públicas desta e das outras instâncias, da mais antiga para a mais nova
+function listClusterLobby(): LobbyEntry[] {
+  return [...listLobby(rooms.values()), ...Array.from(remoteLobby.values(), r => r.entry)].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function clampCapacity(value: number | undefined): number {
+  return Math.max(2, Math.min(4, Math.floor(value || 2)));
+}
+
+function clampRounds(value: number | undefined): number {
+  return Math.max(1, Math.min(20, Math.floor(value || 1)));
+}
+
+// Tempo por jogada entre 10s e 120s; 0 ou ausente desliga
+function parseTurnTimeoutMs(seconds: number | undefined): number | undefined {
+  return seconds && seconds > 0 ? Math.max(10, Math.min(120, Math.floor(seconds))) * 1000 : undefined;
+}
+
+function parseSpectatorMode(mode: SpectatorMode | undefined): SpectatorMode {
+  return mode === 'off' || mode === 'delayed_full' ? mode : 'public';
+}
+
+// Regras de fichas escolhidas pelo dono; preset desconhecido vale como padrão
+function parseChipRules(preset: unknown, overrides: unknown): ChipRuleSetting[] {
+  return resolveChipRules(isChipRulePreset(preset) ? preset : 'standard', overrides && typeof overrides === 'object' ? overrides as ChipRuleOverrides : {});
+}
+
+// Quem senta: conta (se veio token) e apelido; sem apelido vale o nome do perfil
+function resolveSeatIdentity(socket: ClientSocket, nickname: unknown, accountToken: unknown): { nickname: string; account?: Account } | undefined {
+  let account: Account | undefined;
+  if (accountToken !== undefined && accountToken !== null) {
+    account = getAccountByToken(accountToken);
+    if (!account) {
+      emitRoomError(socket, 'invalid_account', 'Conta inválida');
+      return;
+    }
+  }
+  const name = typeof nickname === 'string' && nickname.trim() ? nickname.trim() : account?.displayName;
+  if (!name) {
+    emitRoomError(socket, 'invalid_nickname', 'Nickname inválido');
+    return;
+  }
+  return { nickname: name, account };
+}
+
+function createRoomFor(socket: ClientSocket, options: CreateRoomOptions) {
+  const { totalRounds, mode, teamMode, turnTimeoutSeconds, spectatorMode, isPublic, rematchChips, chipRulePreset, chipRules, winCondition, tieBreaker } = options;
+  try {
+    if (draining) {
+      emitRoomError(socket, 'server_draining', 'Servidor em manutenção: não é possível criar salas agora');
+      return;
+    }
+    // Um socket ocupa um assento só; o da outra sala ficaria órfão, contado como conectado
+    if (socketIdToPlayerId.has(socket.id)) {
+      emitRoomError(socket, 'already_seated', 'Você já está jogando em uma sala');
+      return;
+    }
+    const capacity = clampCapacity(options.capacity);
+    const identity = resolveSeatIdentity(socket, options.nickname, options.accountToken);
+    if (!identity) return;
+    const { nickname, account } = identity;
+
+    const roomId = generateRoomId();
+    const playerId = generatePlayerId();
+    const rounds = clampRounds(totalRounds);
+    const gameMode: GameMode = mode === 'classic' ? 'classic' : 'ten_cards';
+    // Duplas só fazem sentido em mesa de 4
+    const useTeams = !!teamMode && capacity === 4;
+    const turnTimeoutMs = parseTurnTimeoutMs(turnTimeoutSeconds);
+    const spectators = parseSpectatorMode(spectatorMode);
+    const meta: RoomMeta = { id: roomId, capacity, ownerId: playerId, isGameStarted: false, mode: gameMode, teamMode: useTeams, turnTimeoutMs, spectatorMode: spectators, totalRounds: rounds, currentRound: 1, isPublic: !!isPublic, createdAt: Date.now(), rematchChips: rematchChips === 'carry' ? 'carry' : 'reset', chipRules: parseChipRules(chipRulePreset, chipRules), winCondition: parseWinCondition(winCondition), tieBreaker: parseTieBreaker(tieBreaker) };
+    const game: GameState = createGame(gameMode, useTeams);
+    game.players.push({ id: playerId, nickname, hand: [], score: 0, capturedCards: [], chips: 0, connected: true, accountId: account?.id, avatar: account?.avatar });
+    
+    const room: Room = { meta, game };
+    rooms.set(roomId, room);
+    roomLogs.set(roomId, []);
+    attachController(room);
+    cluster.claimRoom(roomId)
+      .then(ok => {
+        if (!ok) log.error('Sala já tem dona em outra instância', { roomId });
+      })
+      .catch(error => log.error('Erro ao registrar a sala', { roomId, error }));
+    bindSocketToPlayer(socket, roomId, playerId);
+    const session = createSession(roomId, playerId);
+    
+    log.info('Sala criada', { roomId, playerId, socketId: socket.id, capacity, totalRounds: rounds, mode: gameMode, teamMode: useTeams, isPublic: meta.isPublic });
+    addRoomLog(roomId, `Sala criada por ${nickname}. Capacidade: ${capacity}. Rodadas: ${rounds}. Modo: ${gameMode === 'classic' ? 'clássico' : '10 cartas'}${useTeams ? ' (duplas)' : ''}`);
+    
+    socket.emit('roomCreated', { roomId, capacity, totalRounds: rounds, winCondition: meta.winCondition, tieBreaker: meta.tieBreaker, mode: gameMode, teamMode: useTeams, turnTimeoutMs, isPublic: meta.isPublic, playerId, sessionToken: session.token });
+    socket.emit('playersUpdate', toPublicPlayers(room.game.players));
+    sendGameState(socket, room);
+    emitPlayersUpdate(roomId);
+  } catch (e) {
+    log.error('Erro ao criar sala', { socketId: socket.id, error: e });
+    emitRoomError(socket, 'internal_error', 'Erro ao criar sala');
+  }
+}
+
+function joinRoomFor(socket: ClientSocket, roomId: string, requestedNickname: unknown, accountToken?: unknown) {
+  try {
+    const room = rooms.get(roomId);
+    if (!room) {
+      log.debug('Entrada recusada: sala não encontrada', { roomId, socketId: socket.id });
+      emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
+      return;
+    }
+    
+    if (room.meta.isGameStarted) {
+      log.debug('Entrada recusada: jogo já iniciado', { roomId, socketId: socket.id });
+      emitRoomError(socket, 'game_already_started', 'Jogo já iniciado');
+      return;
+    }
+    
+    cleanupDisconnectedPlayers();
+    
+    if (room.game.players.length >= room.meta.capacity) {
+      log.debug('Entrada recusada: sala cheia', { roomId, socketId: socket.id, players: room.game.players.length, capacity: room.meta.capacity });
+      socket.emit('roomFull');
+      return;
+    }
+    
+    const identity = resolveSeatIdentity(socket, requestedNickname, accountToken);
+    if (!identity) return;
+    const { nickname, account } = identity;
+    
+    // Check if already in room
+    const existingPlayerId = socketIdToPlayerId.get(socket.id);
+    if (existingPlayerId && room.game.players.some(p => p.id === existingPlayerId)) {
+      log.debug('Socket já está na sala', { roomId, socketId: socket.id, playerId: existingPlayerId });
+      socket.emit('roomJoined', { roomId, capacity: room.meta.capacity, ownerId: room.meta.ownerId, mode: room.meta.mode, teamMode: !!room.meta.teamMode, turnTimeoutMs: room.meta.turnTimeoutMs, playerId: existingPlayerId });
+      socket.emit('playersUpdate', toPublicPlayers(room.game.players));
+      sendGameState(socket, room);
+      return;
+    }
+    if (existingPlayerId) {
+      emitRoomError(socket, 'already_seated', 'Você já está jogando em uma sala');
+      return;
+    }
+    
+    if (room.game.players.some(p => p.nickname.toLowerCase() === nickname.toLowerCase())) {
+      emitRoomError(socket, 'nickname_taken', 'Nickname já em uso nesta sala');
+      return;
+    }
+    if (account && room.game.players.some(p => p.accountId === account.id)) {
+      emitRoomError(socket, 'account_already_seated', 'Esta conta já está na sala');
+      return;
+    }
+
+    const playerId = generatePlayerId();
+    room.game.players.push({ id: playerId, nickname, hand: [], score: 0, capturedCards: [], chips: 0, connected: true, accountId: account?.id, avatar: account?.avatar });
+    bindSocketToPlayer(socket, roomId, playerId);
+    const session = createSession(roomId, playerId);
+    
+    log.info('Jogador entrou na sala', { roomId, playerId, socketId: socket.id, players: room.game.players.length, capacity: room.meta.capacity });
+    addRoomLog(roomId, `${nickname} entrou na sala.`);
+    
+    // Enviar primeiro para o novo jogador
+    socket.emit('roomJoined', { roomId, capacity: room.meta.capacity, ownerId: room.meta.ownerId, mode: room.meta.mode, teamMode: !!room.meta.teamMode, turnTimeoutMs: room.meta.turnTimeoutMs, playerId, sessionToken: session.token });
+    socket.emit('playersUpdate', toPublicPlayers(room.game.players));
+    sendGameState(socket, room);
+    
+    // Depois enviar para todos na sala (incluindo o novo jogador, mas garantindo que todos recebam)
+    setTimeout(() => {
+      emitPlayersUpdate(roomId);
+      emitGameState(roomId);
+    }, 100);
+  } catch (e) {
+    log.error('Erro ao entrar na sala', { socketId: socket.id, error: e });
+    emitRoomError(socket, 'internal_error', 'Erro ao entrar na sala');
+  }
+}
+
+function isSocketConnected(socketId: string): boolean {
+  return io.sockets.sockets.has(socketId) || router.isRemoteSocket(socketId);
+}
+
+// Sala a que um evento se refere: string para uma sala dada no payload, undefined para a sala do socket
+// e null para eventos tratados sempre aqui (criar sala, lobby, payload inválido)
+function eventRoomId(event: string, payload: unknown): string | null | undefined {
+  if (!(event in clientEventSchemas) || event === 'createRoom' || event === 'subscribeLobby' || event === 'unsubscribeLobby') return null;
+  const parsed = (clientEventSchemas[event as ClientEventName] as (value: unknown, path: string) => { ok: true; value: unknown } | { ok: false })(payload, event);
+  if (!parsed.ok) return null;
+  const value = (parsed.value && typeof parsed.value === 'object' ? parsed.value : {}) as { roomId?: string; sessionToken?: string; capacity?: number; mode?: GameMode };
+  if (event === 'quickMatch') {
+    // Sala aberta aqui tem preferência; senão a mais antiga das outras instâncias, e sem nenhuma cria aqui
+    if (findQuickMatchRoom(rooms.values(), value)) return null;
+    return findQuickMatchEntry(Array.from(remoteLobby.values(), r => r.entry), value)?.roomId ?? null;
+  }
+  if (value.roomId) return value.roomId;
+  if (event === 'rejoinRoom' && value.sessionToken) return sessionRoomId(value.sessionToken) ?? null;
+  return undefined;
+}
+
+// Eventos encaminhados ficam com o router; aqui só o lobby compartilhado
+function handleInstanceMessage(message: InstanceMessage) {
+  if (router.handleMessage(message)) return;
+  switch (message.type) {
+    case 'lobbyEntry': {
+      if (message.entry) {
+        remoteLobby.set(message.roomId, { origin: message.origin, entry: message.entry });
+      } else if (remoteLobby.get(message.roomId)?.origin === message.origin) {
+        remoteLobby.delete(message.roomId);
+      }
+      break;
+    }
+    case 'lobbySync': {
+      for (const roomId of lastLobbyEntries.keys()) {
+        const room = rooms.get(roomId);
+        if (room) cluster.send(message.origin, { type: 'lobbyEntry', origin: INSTANCE_ID, roomId, entry: buildLobbyEntry(room) });
+      }
+      break;
+    }
+  }
+}
+
+// Instância que parou de renovar a posse: seus sockets contam como desconectados e suas salas saem do lobby
+async function pruneDeadInstances() {
+  const instances = new Set([...router.instances(), ...Array.from(remoteLobby.values(), r => r.origin)]);
+  for (const instanceId of instances) {
+    if (await cluster.isAlive(instanceId)) continue;
+    log.warn('Instância não renovou a posse; descartando seus sockets e salas', { deadInstanceId: instanceId });
+    router.dropInstance(instanceId);
+    for (const [roomId, remote] of remoteLobby) {
+      if (remote.origin !== instanceId) continue;
+      remoteLobby.delete(roomId);
+      io.local.to(LOBBY_CHANNEL).emit('lobbyRoomRemoved', { roomId });
+    }
+  }
 }
 
 io.on("connection", (socket) => {
-  const totalSockets = io.sockets.sockets.size;
-  console.log(`[CONNECTION] Socket conectado: ${socket.id}`);
-  console.log(`[CONNECTION] Total de sockets conectados: ${totalSockets}`);
-  
+  log.debug('Socket conectado', { socketId: socket.id, sockets: io.sockets.sockets.size });
+
+  // Eventos de uma sala de outra instância seguem para a dona; os demais são tratados aqui
+  socket.use((packet, next) => router.route(socket, packet, next));
+  socket.on("disconnect", (reason) => {
+    gameMetrics.disconnects.inc({ reason });
+    router.socketClosed(socket.id, reason);
+  });
+  registerClientHandlers(socket);
+});
+
+// Handlers dos eventos do cliente, para sockets desta instância e para os encaminhados por outras
+function registerClientHandlers(socket: ClientSocket) {
   // Create room
-  socket.on("createRoom", ({ capacity, nickname, totalRounds }: { capacity: number; nickname: string; totalRounds?: number }) => {
-    try {
-      capacity = Math.max(2, Math.min(4, Math.floor(capacity || 2)));
-      if (!nickname || typeof nickname !== 'string') {
-        socket.emit('roomError', 'Nickname inválido');
+  onClientEvent(socket, "createRoom", (options) => createRoomFor(socket, options));
+
+  // Join room
+  onClientEvent(socket, "joinRoom", ({ roomId, nickname, accountToken }) => joinRoomFor(socket, roomId, nickname, accountToken));
+
+  // Lobby: lista inicial das salas públicas e, depois, atualizações ao vivo
+  onClientEvent(socket, "subscribeLobby", () => {
+    socket.join(LOBBY_CHANNEL);
+    socket.emit('lobbySnapshot', listClusterLobby());
+  });
+
+  onClientEvent(socket, "unsubscribeLobby", () => {
+    socket.leave(LOBBY_CHANNEL);
+  });
+
+  // Partida rápida: entra na sala pública aberta mais antiga que servir, ou cria uma nova
+  onClientEvent(socket, "quickMatch", ({ nickname, capacity, mode, accountToken }) => {
+    if (socketIdToPlayerId.has(socket.id)) {
+      emitRoomError(socket, 'already_seated', 'Você já está jogando em uma sala');
       return;
     }
-    
-      const roomId = generateRoomId();
-      const rounds = Math.max(1, Math.min(20, Math.floor(totalRounds || 1)));
-      const meta: RoomMeta = { id: roomId, capacity, ownerId: socket.id, isGameStarted: false, totalRounds: rounds, currentRound: 1 };
-      const game: GameState = createGame();
-      game.players.push({ id: socket.id, nickname: nickname.trim(), hand: [], score: 0, capturedCards: [], chips: 0 });
-      
-      const room: Room = { meta, game };
-      rooms.set(roomId, room);
+    cleanupDisconnectedPlayers();
+    const room = findQuickMatchRoom(rooms.values(), { capacity, mode });
+    if (room) {
+      log.debug('Partida rápida encontrou sala', { roomId: room.meta.id, socketId: socket.id });
+      joinRoomFor(socket, room.meta.id, nickname, accountToken);
+    } else {
+      log.debug('Partida rápida sem sala aberta; criando sala pública', { socketId: socket.id });
+      createRoomFor(socket, { nickname, capacity, mode, isPublic: true, accountToken });
+    }
+  });
+
+  // Spectate room: observador sem assento, permitido mesmo com o jogo iniciado ou a sala cheia
+  onClientEvent(socket, "spectateRoom", ({ roomId, nickname }) => {
+    try {
+      const room = rooms.get(roomId);
+      if (!room) {
+        emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
+        return;
+      }
+      if (room.meta.spectatorMode === 'off') {
+        emitRoomError(socket, 'spectators_disabled', 'Esta sala não aceita espectadores');
+        return;
+      }
+      if (socketIdToPlayerId.has(socket.id)) {
+        emitRoomError(socket, 'already_seated', 'Você já está jogando em uma sala');
+        return;
+      }
+
+      removeSpectator(socket.id);
+      const spectator: Spectator = { id: generatePlayerId(), nickname, joinedAt: Date.now() };
+      const spectators = spectatorsByRoom.get(roomId) || new Map<string, Spectator>();
+      spectators.set(socket.id, spectator);
+      spectatorsByRoom.set(roomId, spectators);
+      socketIdToSpectatedRoomId.set(socket.id, roomId);
       socket.join(roomId);
-      socketIdToRoomId.set(socket.id, roomId);
-      roomLogs.set(roomId, []);
-      
-      console.log(`[CREATE_ROOM] Sala ${roomId} criada por ${nickname} (${socket.id}), capacidade: ${capacity}, rodadas: ${rounds}`);
-      addRoomLog(roomId, `Sala criada por ${nickname}. Capacidade: ${capacity}. Rodadas: ${rounds}`);
-      
-      socket.emit('roomCreated', { roomId, capacity, totalRounds: rounds });
-      socket.emit('playersUpdate', room.game.players);
-      socket.emit('gameState', room.game);
-      io.to(roomId).emit('playersUpdate', room.game.players);
+      router.updateRoute(socket.id, roomId);
+
+      log.info('Espectador entrou na sala', { roomId, socketId: socket.id });
+      addRoomLog(roomId, `${spectator.nickname} está assistindo.`);
+
+      socket.emit('spectating', {
+        roomId,
+        capacity: room.meta.capacity,
+        mode: room.meta.mode,
+        spectatorMode: room.meta.spectatorMode,
+        spectatorDelayMs: room.meta.spectatorMode === 'delayed_full' ? SPECTATOR_DELAY_MS : 0,
+        logs: roomLogs.get(roomId) || [],
+      });
+      socket.emit('playersUpdate', toPublicPlayers(room.game.players));
+      // Visão pública ao vivo; no modo com atraso as mãos abertas chegam depois
+      socket.emit('gameState', buildSpectatorView(room.game, false));
+      emitSpectatorsUpdate(roomId);
     } catch (e) {
-      console.error(`[ERROR] Erro ao criar sala:`, e);
-      socket.emit('roomError', 'Erro ao criar sala');
+      log.error('Erro ao assistir sala', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao assistir sala');
     }
   });
 
-  // Join room
-  socket.on("joinRoom", ({ roomId, nickname }: { roomId: string; nickname: string }) => {
+  onClientEvent(socket, "stopSpectating", () => {
+    removeSpectator(socket.id);
+  });
+
+  // Dono define se a sala aceita espectadores e se eles veem as mãos (com atraso)
+  onClientEvent(socket, "setSpectatorMode", ({ roomId, mode }) => {
     try {
       const room = rooms.get(roomId);
       if (!room) {
-        console.log(`[JOIN_ROOM] Sala ${roomId} não encontrada (${socket.id})`);
-        socket.emit('roomError', 'Sala não encontrada');
+        emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
         return;
       }
-      
-      if (room.meta.isGameStarted) {
-        console.log(`[JOIN_ROOM] Tentativa de entrar na sala ${roomId} já iniciada (${socket.id})`);
-        socket.emit('roomError', 'Jogo já iniciado');
+      if (room.meta.ownerId !== socketIdToPlayerId.get(socket.id)) {
+        emitRoomError(socket, 'not_owner', 'Apenas o dono pode alterar os espectadores');
         return;
       }
-      
-      cleanupDisconnectedPlayers();
-      
-      const connectedSocketIds = new Set(Array.from(io.sockets.sockets.keys()));
-      room.game.players = room.game.players.filter(p => connectedSocketIds.has(p.id));
-      
-      if (room.game.players.length >= room.meta.capacity) {
-        console.log(`[JOIN_ROOM] Sala ${roomId} cheia (${room.game.players.length}/${room.meta.capacity})`);
-        socket.emit('roomFull');
-        return;
+      room.meta.spectatorMode = mode;
+      if (mode !== 'delayed_full') clearSpectatorTimers(roomId);
+      if (mode === 'off') {
+        for (const socketId of Array.from(spectatorsByRoom.get(roomId)?.keys() || [])) {
+          io.to(socketId).emit('spectatingEnded', { roomId });
+          removeSpectator(socketId);
+        }
       }
-      
-      if (!nickname || typeof nickname !== 'string') {
-        socket.emit('roomError', 'Nickname inválido');
+      addRoomLog(roomId, mode === 'off' ? 'Espectadores desativados.' : mode === 'public' ? 'Espectadores com visão pública.' : 'Espectadores veem a partida com atraso e as mãos quando cada uma termina.');
+      io.to(roomId).emit('spectatorModeChanged', { mode, spectatorDelayMs: mode === 'delayed_full' ? SPECTATOR_DELAY_MS : 0 });
+    } catch (e) {
+      log.error('Erro ao alterar espectadores', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao alterar espectadores');
+    }
+  });
+
+  // Rejoin room: um novo socket retoma o assento de uma sessão existente
+  onClientEvent(socket, "rejoinRoom", ({ sessionToken }) => {
+    try {
+      const session = typeof sessionToken === 'string' ? getSession(sessionToken) : undefined;
+      if (!session) {
+        emitRoomError(socket, 'invalid_session', 'Sessão inválida ou expirada');
         return;
       }
-      
-      // Check if already in room
-      if (room.game.players.some(p => p.id === socket.id)) {
-        console.log(`[JOIN_ROOM] Socket ${socket.id} já está na sala ${roomId}`);
-        socket.emit('roomJoined', { roomId, capacity: room.meta.capacity, ownerId: room.meta.ownerId });
-        socket.emit('playersUpdate', room.game.players);
-        socket.emit('gameState', room.game);
+      const room = rooms.get(session.roomId);
+      const player = room?.game.players.find(p => p.id === session.playerId);
+      if (!room || !player) {
+        deleteSessionForPlayer(session.playerId);
+        emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
         return;
       }
-      
-      room.game.players.push({ id: socket.id, nickname: nickname.trim(), hand: [], score: 0, capturedCards: [], chips: 0 });
-      socket.join(roomId);
-      socketIdToRoomId.set(socket.id, roomId);
-      
-      console.log(`[JOIN_ROOM] ${nickname} (${socket.id}) entrou na sala ${roomId}. Total: ${room.game.players.length}/${room.meta.capacity}`);
-      addRoomLog(roomId, `${nickname} entrou na sala.`);
-      
-      // Enviar primeiro para o novo jogador
-      socket.emit('roomJoined', { roomId, capacity: room.meta.capacity, ownerId: room.meta.ownerId });
-      socket.emit('playersUpdate', room.game.players);
-      socket.emit('gameState', room.game);
-      
-      // Depois enviar para todos na sala (incluindo o novo jogador, mas garantindo que todos recebam)
-      setTimeout(() => {
-        io.to(roomId).emit('playersUpdate', room.game.players);
-        io.to(roomId).emit('gameState', room.game);
-        console.log(`[JOIN_ROOM] Eventos broadcast enviados para sala ${roomId}`);
-      }, 100);
+
+      const wasDisconnected = player.connected === false;
+      bindSocketToPlayer(socket, room.meta.id, player.id);
+      room.game.players = room.game.players.map(p => p.id === player.id ? { ...p, connected: true } : p);
+
+      log.info('Jogador voltou para a sala', { roomId: room.meta.id, playerId: player.id, socketId: socket.id });
+      if (wasDisconnected) addRoomLog(room.meta.id, `${player.nickname} reconectou.`);
+
+      socket.emit('roomRejoined', {
+        roomId: room.meta.id,
+        capacity: room.meta.capacity,
+        ownerId: room.meta.ownerId,
+        mode: room.meta.mode,
+        teamMode: !!room.meta.teamMode,
+        turnTimeoutMs: room.meta.turnTimeoutMs,
+        playerId: player.id,
+        totalRounds: room.meta.totalRounds,
+        currentRound: room.meta.currentRound,
+        winCondition: room.meta.winCondition || { type: 'rounds' },
+        tieBreaker: room.meta.tieBreaker || 'card_points',
+        mutedPlayerIds: room.meta.mutedPlayerIds || [],
+        logs: roomLogs.get(room.meta.id) || [],
+      });
+      sendGameState(socket, room);
+      emitPlayersUpdate(room.meta.id);
     } catch (e) {
-      console.error(`[ERROR] Erro ao entrar na sala:`, e);
-      socket.emit('roomError', 'Erro ao entrar na sala');
+      log.error('Erro ao reconectar', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao reconectar');
     }
   });
 
-  // Start room
-  socket.on("startRoom", ({ roomId }: { roomId: string }) => {
+  // Add bot: o dono preenche um assento vazio no lobby
+  onClientEvent(socket, "addBot", ({ roomId, difficulty }) => {
     try {
       const room = rooms.get(roomId);
       if (!room) {
-        socket.emit('roomError', 'Sala não encontrada');
+        emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
         return;
       }
-      if (room.meta.ownerId !== socket.id) {
-        socket.emit('roomError', 'Apenas o dono pode iniciar');
+      if (room.meta.ownerId !== socketIdToPlayerId.get(socket.id)) {
+        emitRoomError(socket, 'not_owner', 'Apenas o dono pode adicionar bots');
         return;
       }
-      const playerCount = room.game.players.length;
-      if (playerCount < 2 || playerCount > room.meta.capacity) {
-        socket.emit('roomError', 'Número de jogadores inválido');
+      if (room.meta.isGameStarted) {
+        emitRoomError(socket, 'game_already_started', 'Jogo já iniciado');
         return;
       }
-      room.game = startGame(room.game);
-      room.meta.isGameStarted = true;
-      io.to(roomId).emit('gameState', room.game);
-      io.to(roomId).emit('gameStarted');
-      // Logs e fichas iniciais (não revelar K do trunfo)
-      const trumpSuit = room.game.trumpCard.slice(-1);
-      addRoomLog(roomId, `Jogo iniciado. Trunfo: ${room.game.trumpCard}`);
-      const initialAwards: { playerId: string; delta: number; reasons: string[] }[] = [];
-      room.game.players = room.game.players.map(p => {
-        let delta = 0;
-        const reasons: string[] = [];
-        const hasTrump2 = p.hand.includes('2' + trumpSuit);
-        const hasTrumpA = p.hand.includes('A' + trumpSuit);
-        const hasTrump7 = p.hand.includes('7' + trumpSuit);
-        if (hasTrump2) {
-          addRoomLog(roomId, `${p.nickname} tem o 2 do trunfo.`);
-          delta += 1; reasons.push('captured_trump_2_initial');
-        }
-        if (hasTrumpA && hasTrump7) {
-          addRoomLog(roomId, `${p.nickname} tem o A e o 7 do trunfo.`);
-          delta += 1; reasons.push('captured_both_trump_A_7_initial');
-        }
-        if (delta > 0) {
-          initialAwards.push({ playerId: p.id, delta, reasons });
-        }
-        return { ...p, chips: (p.chips ?? 0) + delta };
-      });
-      if (initialAwards.length > 0) {
-        io.to(roomId).emit('chipsAwarded', { awards: initialAwards });
-        io.to(roomId).emit('gameState', room.game);
+      if (room.game.players.length >= room.meta.capacity) {
+        socket.emit('roomFull');
+        return;
       }
+
+      const level: BotDifficulty = difficulty === 'smart' ? 'smart' : 'random';
+      const botNumber = room.game.players.filter(p => p.isBot).length + 1;
+      const nickname = `Bot ${botNumber}`;
+      room.game.players.push({ id: generatePlayerId(), nickname, hand: [], score: 0, capturedCards: [], chips: 0, connected: true, isBot: true, botDifficulty: level });
+
+      log.info('Bot adicionado à sala', { roomId, difficulty: level, players: room.game.players.length, capacity: room.meta.capacity });
+      addRoomLog(roomId, `${nickname} (${level === 'smart' ? 'difícil' : 'fácil'}) entrou na sala.`);
+      emitPlayersUpdate(roomId);
+      emitGameState(roomId);
     } catch (e) {
-      socket.emit('roomError', 'Erro ao iniciar jogo');
+      log.error('Erro ao adicionar bot', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao adicionar bot');
+    }
+  });
+
+  // Start room
+  onClientEvent(socket, "startRoom", ({ roomId }) => {
+    try {
+      const room = rooms.get(roomId);
+      if (!room) {
+        emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
+        return;
+      }
+      if (room.meta.ownerId !== socketIdToPlayerId.get(socket.id)) {
+        emitRoomError(socket, 'not_owner', 'Apenas o dono pode iniciar');
+        return;
+      }
+      // Segundo startRoom, partida em andamento ou revanche em votação: o controlador recusa
+      const result = controllers.get(roomId)!.start();
+      if (!result.ok) emitRoomError(socket, result.code, result.message);
+    } catch (e) {
+      emitRoomError(socket, 'internal_error', 'Erro ao iniciar jogo');
     }
   });
 
   // Play card
-  socket.on("playCard", (card: string) => {
+  // Responde pelo ack, se o cliente mandar um; senão recusas chegam como 'playRejected'
+  onClientEvent(socket, "playCard", (card, ack) => {
+    const reply = (result: PlayValidation) => replyPlay(socket, card, ack, result);
     try {
-      if (!card || typeof card !== 'string') return;
       const roomId = socketIdToRoomId.get(socket.id);
-      if (!roomId) return;
-      const room = rooms.get(roomId);
-      if (!room) return;
-      
-      const beforeTableCount = room.game.table.length;
-      const beforeRoundNumber = room.game.roundNumber;
-      room.game = playCard(room.game, socket.id, card);
-      
-      // Check if this is the last card of the trick (all players have played)
-      const isLastCard = room.game.table.length === room.game.players.length;
-      
-      if (isLastCard) {
-        console.log('[Last Card] Última carta jogada, mesa completa:', room.game.table.map(p => p.card));
-        // Emit state with full table visible first
-        io.to(roomId).emit("gameState", room.game);
-        
-        // Wait 2.5 seconds before resolving the trick
-        setTimeout(() => {
-          const currentRoom = rooms.get(roomId);
-          if (!currentRoom) {
-            console.log('[Last Card] Sala não encontrada ao resolver truque');
-            return;
-          }
-          
-          console.log('[Last Card] Resolvendo truque, estado antes:', {
-            tableLength: currentRoom.game.table.length,
-            playersLength: currentRoom.game.players.length,
-            roundNumber: currentRoom.game.roundNumber,
-            turn: currentRoom.game.turn
-          });
-          
-          const beforeRoundNumberResolve = currentRoom.game.roundNumber;
-          const beforeTableLength = currentRoom.game.table.length;
-          currentRoom.game = resolveTrick(currentRoom.game);
-          
-          console.log('[Last Card] Truque resolvido, estado depois:', {
-            tableLength: currentRoom.game.table.length,
-            roundNumber: currentRoom.game.roundNumber,
-            turn: currentRoom.game.turn,
-            winnerId: currentRoom.game.lastTrickWinnerId
-          });
-          
-          io.to(roomId).emit("gameState", currentRoom.game);
-          
-          // Emit trickWon event if trick was completed
-          const justCompletedTrick = beforeTableLength === currentRoom.game.players.length && currentRoom.game.table.length === 0 && currentRoom.game.roundNumber === beforeRoundNumberResolve + 1;
-          if (justCompletedTrick && currentRoom.game.lastTrickWinnerId && currentRoom.game.lastTrickCards) {
-            const winner = currentRoom.game.players.find(p => p.id === currentRoom.game.lastTrickWinnerId);
-            console.log('[Last Card] Emitindo trickWon para:', winner?.nickname);
-            io.to(roomId).emit('trickWon', {
-              winnerId: currentRoom.game.lastTrickWinnerId,
-              winnerNickname: winner?.nickname || '—',
-              cards: currentRoom.game.lastTrickCards,
-              roundNumber: currentRoom.game.roundNumber - 1,
-            });
-          } else {
-            console.log('[Last Card] Truque não completado corretamente:', {
-              justCompletedTrick,
-              hasWinnerId: !!currentRoom.game.lastTrickWinnerId,
-              hasLastTrickCards: !!currentRoom.game.lastTrickCards,
-              tableLength: currentRoom.game.table.length,
-              expectedTableLength: 0,
-              roundNumber: currentRoom.game.roundNumber,
-              expectedRoundNumber: beforeRoundNumberResolve + 1
-            });
-          }
-          
-          // Check for end of game after trick resolution
-          checkGameEnd(roomId);
-        }, 2500);
-      } else {
-        // Not the last card, emit state immediately
-        io.to(roomId).emit("gameState", room.game);
+      const playerId = socketIdToPlayerId.get(socket.id);
+      const room = roomId ? rooms.get(roomId) : undefined;
+      if (!roomId || !playerId || !room) {
+        reply({ ok: false, code: 'room_not_found', message: 'Você não está em uma sala' });
+        return;
       }
+      // Jogar por conta própria zera as faltas e tira a marca de ausente (no controlador)
+      reply(controllers.get(roomId)!.play(playerId, card));
+    } catch (error) {
+      log.error('Erro ao jogar carta', { socketId: socket.id, error });
+      reply({ ok: false, code: 'internal_error', message: 'Erro ao jogar carta' });
+    }
+  });
 
-      // Note: Game end check moved to checkGameEnd function
+  // Vote away: a mesa vota para substituir por bot ou expulsar um jogador marcado como ausente
+  onClientEvent(socket, "voteAway", ({ targetPlayerId, action }) => {
+    try {
+      const roomId = socketIdToRoomId.get(socket.id);
+      const voterId = socketIdToPlayerId.get(socket.id);
+      const room = roomId ? rooms.get(roomId) : undefined;
+      if (!roomId || !voterId || !room) return;
+      // Contagem, aviso da votação e log ficam com o controlador; aqui só o efeito sobre o socket
+      const result = controllers.get(roomId)!.voteAway(voterId, targetPlayerId, action || 'replace');
+      if (!result.ok) {
+        emitRoomError(socket, result.code, result.message);
+        return;
+      }
+      if (!result.decided) return;
+      if (result.decided === 'kick') {
+        kickPlayer(roomId, targetPlayerId);
+      } else if (room.meta.isGameStarted) {
+        replaceWithBot(roomId, targetPlayerId);
+      } else {
+        removePlayer(roomId, targetPlayerId);
+      }
     } catch (error) {
-      // Silent fail
+      log.error('Erro na votação de ausente', { socketId: socket.id, error });
     }
   });
 
-  // Helper function to check if game ended
-  function checkGameEnd(roomId: string) {
+  // Verifica se o socket pode falar na sala: sentado, não silenciado e dentro do limite de mensagens
+  const checkChatAllowed = (): { room: Room; author: { playerId: string; nickname: string } } | undefined => {
+    const roomId = socketIdToRoomId.get(socket.id);
+    const playerId = socketIdToPlayerId.get(socket.id);
+    const room = roomId ? rooms.get(roomId) : undefined;
+    const check = checkChatAuthor(room, playerId, chatLimiter, socket.id);
+    if (!check.ok) {
+      rejectChat(check.code, check.message);
+      return;
+    }
+    return { room: room!, author: { playerId: check.player.id, nickname: check.player.nickname } };
+  };
+
+  const rejectChat = (code: ChatRejectionCode, message: string) => {
+    socket.emit('chatRejected', { code, message });
+  };
+
+  // Chat: vai para o mesmo log da sala, com type 'chat'
+  onClientEvent(socket, "chatMessage", ({ text }) => {
     try {
-      const room = rooms.get(roomId);
+      const trimmed = typeof text === 'string' ? text.trim() : '';
+      if (!trimmed) {
+        rejectChat('empty', 'Mensagem vazia');
+        return;
+      }
+      if (trimmed.length > CHAT_MAX_LENGTH) {
+        rejectChat('too_long', `Mensagem com mais de ${CHAT_MAX_LENGTH} caracteres`);
+        return;
+      }
+      const allowed = checkChatAllowed();
+      if (!allowed) return;
+      addRoomLog(allowed.room.meta.id, filterChatText(trimmed), 'chat', allowed.author);
+    } catch (e) {
+      log.error('Erro ao enviar mensagem', { socketId: socket.id, error: e });
+    }
+  });
+
+  // Reação rápida: só da lista fixa, permitida também durante a partida
+  onClientEvent(socket, "sendReaction", ({ reaction }) => {
+    try {
+      if (!isQuickReaction(reaction)) {
+        rejectChat('invalid_reaction', 'Reação inválida');
+        return;
+      }
+      const allowed = checkChatAllowed();
+      if (!allowed) return;
+      addRoomLog(allowed.room.meta.id, reaction, 'reaction', allowed.author);
+    } catch (e) {
+      log.error('Erro ao enviar reação', { socketId: socket.id, error: e });
+    }
+  });
+
+  // Sala do socket, se ele for o dono; senão avisa com a mensagem dada
+  const ownedRoom = (deniedMessage: string): Room | undefined => {
+    const roomId = socketIdToRoomId.get(socket.id);
+    const room = roomId ? rooms.get(roomId) : undefined;
+    if (!room) {
+      emitRoomError(socket, 'room_not_found', 'Sala não encontrada');
+      return;
+    }
+    if (room.meta.ownerId !== socketIdToPlayerId.get(socket.id)) {
+      emitRoomError(socket, 'not_owner', deniedMessage);
+      return;
+    }
+    return room;
+  };
+
+  // Dono silencia (ou libera) um jogador; guardado por id de jogador, então vale após reconexão
+  onClientEvent(socket, "mutePlayer", ({ targetPlayerId, muted }) => {
+    try {
+      const room = ownedRoom('Apenas o dono pode silenciar jogadores');
       if (!room) return;
-      
-      // Verificar fim da partida (todos sem cartas)
-      const playersWithCards = room.game.players.filter(p => p.hand.length > 0);
-      if (playersWithCards.length === 0) {
-        // Calcular fichas desta partida (jogo) — finais: rei no final, maior pontuação, A do trunfo + pegar 7 adversário
-        const trumpSuit = room.game.trumpCard.slice(-1);
-        const trump2 = '2' + trumpSuit;
-        const trump7 = '7' + trumpSuit;
-        const trumpA = 'A' + trumpSuit;
-        const trumpK = 'K' + trumpSuit;
-
-        // Vencedor da última vaza jogou K de trunfo e nenhum adversário jogou A/7 de trunfo
-        const lastTrick = room.game.lastTrickCards || [];
-        const lastTrickWinnerId = room.game.lastTrickWinnerId;
-        const lastTrickWinnerPlayedKTrump = lastTrick.some(t => t.playerId === lastTrickWinnerId && t.card === trumpK);
-        const opponentsPlayedAor7Trump = lastTrick.some(t => t.card === trumpA || t.card === trump7);
-
-        // Determinar maior pontuação
-        const scores = room.game.players.map(p => p.score);
-        const maxScore = Math.max(...scores);
-        const numMax = scores.filter(s => s === maxScore).length;
-
-        const chipsAwarded: { playerId: string; delta: number; reasons: string[] }[] = [];
-        room.game.players.forEach(p => {
-          let delta = 0;
-          const reasons: string[] = [];
-          const captured = new Set(p.capturedCards);
-          // iniciais já foram contabilizadas no início; não repetir aqui
-          const playedTrumpA = !!room.game.playedTrumpAByPlayerId?.[p.id];
-          const capturedOpp7 = !!room.game.capturedOppTrump7ByPlayerId?.[p.id];
-          if (playedTrumpA && capturedOpp7) { delta += 1; reasons.push('played_trump_A_and_captured_opponent_trump_7'); }
-          if (numMax === 1 && p.score === maxScore && maxScore > 0) { delta += 1; reasons.push('highest_score'); }
-          if (p.id === lastTrickWinnerId && lastTrickWinnerPlayedKTrump && !opponentsPlayedAor7Trump) { delta += 1; reasons.push('king_of_trump_last_trick'); }
-          if (delta > 0) chipsAwarded.push({ playerId: p.id, delta, reasons });
-        });
-
-        // Aplicar fichas
-        room.game.players = room.game.players.map(p => {
-          const add = chipsAwarded.find(c => c.playerId === p.id)?.delta || 0;
-          const chips = (p.chips ?? 0) + add;
-          return { ...p, chips };
-        });
-
-        io.to(roomId).emit('roundFinished', {
-          scores: room.game.players.map(p => ({ id: p.id, nickname: p.nickname, score: p.score })),
-          chipsAwarded,
-          totalChips: room.game.players.map(p => ({ id: p.id, nickname: p.nickname, chips: p.chips ?? 0 })),
-          trumpCard: room.game.trumpCard,
-        });
-
-        // Avançar rodada do match
-        room.meta.currentRound = (room.meta.currentRound || 1) + 1;
-        const totalRounds = room.meta.totalRounds || 1;
-        const matchOver = (room.meta.currentRound || 1) > totalRounds;
-
-        if (matchOver) {
-          const maxChips = Math.max(...room.game.players.map(p => p.chips ?? 0));
-          const winners = room.game.players.filter(p => (p.chips ?? 0) === maxChips).map(p => ({ id: p.id, nickname: p.nickname, chips: p.chips ?? 0 }));
-          io.to(roomId).emit('matchFinished', {
-            winners,
-            standings: room.game.players.map(p => ({ id: p.id, nickname: p.nickname, chips: p.chips ?? 0 })),
-          });
-          // Reset estado do jogo para lobby
-          room.meta.isGameStarted = false;
-          room.game = createGame();
-          // manter jogadores com chips
-          const playersSnapshot = room.game.players; // createGame esvazia
-          // repovoar com lista de sockets presentes? manteremos pela lista anterior do room via socket map
-          // Como createGame limpou, re-adicionar apenas ids conectados atuais sem cartas
-          const connectedSocketIds = new Set(Array.from(io.sockets.sockets.keys()));
-          const previousPlayers = Array.from(connectedSocketIds).filter(id => room.game.players.findIndex(p => p.id === id) >= -1);
-          // Simplesmente emitir estado vazio; jogadores continuarão na sala, fichas preservadas em memória se iniciarmos novo jogo futuramente
-          io.to(roomId).emit('gameState', room.game);
-        } else {
-          // Iniciar próxima rodada automaticamente com mesmos jogadores e fichas preservadas
-          const preserved = room.game.players.map(p => ({ id: p.id, nickname: p.nickname, hand: [], score: 0, capturedCards: [], chips: p.chips ?? 0 }));
-          const nextGame = createGame();
-          nextGame.players = preserved as any;
-          room.game = startGame(nextGame);
-          room.meta.isGameStarted = true;
-          io.to(roomId).emit('gameState', room.game);
-          io.to(roomId).emit('gameStarted');
+      const roomId = room.meta.id;
+      const target = room.game.players.find(p => p.id === targetPlayerId);
+      if (!target || target.id === room.meta.ownerId) {
+        emitRoomError(socket, 'invalid_player', 'Jogador inválido');
+        return;
+      }
+      const mutedIds = (room.meta.mutedPlayerIds || []).filter(id => id !== targetPlayerId);
+      if (muted !== false) mutedIds.push(targetPlayerId);
+      room.meta.mutedPlayerIds = mutedIds;
+      addRoomLog(roomId, muted !== false ? `${target.nickname} foi silenciado.` : `${target.nickname} pode falar novamente.`);
+      io.to(roomId).emit('mutedPlayersUpdate', { mutedPlayerIds: mutedIds });
+    } catch (e) {
+      log.error('Erro ao silenciar jogador', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao silenciar jogador');
+    }
+  });
+
+  // Dono expulsa um jogador (humano ou bot); com partida em andamento ela volta ao lobby
+  onClientEvent(socket, "kickPlayer", ({ targetPlayerId }) => {
+    try {
+      const room = ownedRoom('Apenas o dono pode expulsar jogadores');
+      if (!room) return;
+      const target = room.game.players.find(p => p.id === targetPlayerId);
+      if (!target || target.id === room.meta.ownerId) {
+        emitRoomError(socket, 'invalid_player', 'Jogador inválido');
+        return;
+      }
+      log.info('Jogador expulso pelo dono', { roomId: room.meta.id, playerId: targetPlayerId });
+      addRoomLog(room.meta.id, `${target.nickname} foi expulso pelo dono.`);
+      kickPlayer(room.meta.id, targetPlayerId);
+    } catch (e) {
+      log.error('Erro ao expulsar jogador', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao expulsar jogador');
+    }
+  });
+
+  // Dono passa a sala para outro jogador humano
+  onClientEvent(socket, "transferOwnership", ({ targetPlayerId }) => {
+    try {
+      const room = ownedRoom('Apenas o dono pode transferir a sala');
+      if (!room) return;
+      const target = room.game.players.find(p => p.id === targetPlayerId);
+      if (!target || target.isBot || target.id === room.meta.ownerId) {
+        emitRoomError(socket, 'invalid_player', 'Jogador inválido');
+        return;
+      }
+      setOwner(room.meta.id, targetPlayerId);
+    } catch (e) {
+      log.error('Erro ao transferir a sala', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao transferir a sala');
+    }
+  });
+
+  // Dono altera as configurações da sala; só no lobby
+  onClientEvent(socket, "updateRoomSettings", (settings) => {
+    try {
+      const room = ownedRoom('Apenas o dono pode alterar a sala');
+      if (!room) return;
+      if (room.meta.isGameStarted) {
+        emitRoomError(socket, 'game_already_started', 'Jogo já iniciado');
+        return;
+      }
+      const { meta } = room;
+      const capacity = settings.capacity !== undefined ? clampCapacity(settings.capacity) : meta.capacity;
+      if (capacity < room.game.players.length) {
+        emitRoomError(socket, 'capacity_too_low', 'Capacidade menor que o número de jogadores na sala');
+        return;
+      }
+      meta.capacity = capacity;
+      if (settings.totalRounds !== undefined) meta.totalRounds = clampRounds(settings.totalRounds);
+      if (settings.mode !== undefined) meta.mode = settings.mode === 'classic' ? 'classic' : 'ten_cards';
+      if (settings.turnTimeoutSeconds !== undefined) meta.turnTimeoutMs = parseTurnTimeoutMs(settings.turnTimeoutSeconds);
+      if (settings.spectatorMode !== undefined) meta.spectatorMode = parseSpectatorMode(settings.spectatorMode);
+      if (meta.spectatorMode !== 'delayed_full') clearSpectatorTimers(meta.id);
+      if (settings.isPublic !== undefined) meta.isPublic = !!settings.isPublic;
+      if (settings.rematchChips !== undefined) meta.rematchChips = settings.rematchChips === 'carry' ? 'carry' : 'reset';
+      if (settings.winCondition !== undefined) meta.winCondition = parseWinCondition(settings.winCondition);
+      if (settings.tieBreaker !== undefined) meta.tieBreaker = parseTieBreaker(settings.tieBreaker);
+      if (settings.chipRulePreset !== undefined || settings.chipRules !== undefined) meta.chipRules = parseChipRules(settings.chipRulePreset, settings.chipRules);
+      // Duplas só fazem sentido em mesa de 4
+      meta.teamMode = (settings.teamMode ?? meta.teamMode ?? false) && capacity === 4;
+      room.game = { ...room.game, mode: meta.mode, teamMode: meta.teamMode };
+      if (meta.spectatorMode === 'off') {
+        for (const socketId of Array.from(spectatorsByRoom.get(meta.id)?.keys() || [])) {
+          io.to(socketId).emit('spectatingEnded', { roomId: meta.id });
+          removeSpectator(socketId);
         }
       }
-    } catch (error) {
-      // Silent fail
+
+      log.info('Sala alterada', { roomId: meta.id, capacity: meta.capacity, totalRounds: meta.totalRounds, mode: meta.mode });
+      addRoomLog(meta.id, `Configurações alteradas. Capacidade: ${meta.capacity}. Rodadas: ${meta.totalRounds}. Modo: ${meta.mode === 'classic' ? 'clássico' : '10 cartas'}${meta.teamMode ? ' (duplas)' : ''}`);
+      io.to(meta.id).emit('roomSettingsUpdated', {
+        capacity: meta.capacity,
+        totalRounds: meta.totalRounds,
+        winCondition: meta.winCondition || { type: 'rounds' },
+        tieBreaker: meta.tieBreaker || 'card_points',
+        mode: meta.mode,
+        teamMode: !!meta.teamMode,
+        turnTimeoutMs: meta.turnTimeoutMs,
+        spectatorMode: meta.spectatorMode,
+        isPublic: !!meta.isPublic,
+        rematchChips: meta.rematchChips || 'reset',
+        chipRules: meta.chipRules || resolveChipRules(),
+      });
+      emitPlayersUpdate(meta.id);
+      emitGameState(meta.id);
+    } catch (e) {
+      log.error('Erro ao alterar a sala', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao alterar a sala');
     }
-  }
+  });
 
-  // Disconnect
-  socket.on("disconnect", (reason) => {
+  // Dono interrompe a partida e volta ao lobby, mantendo ou zerando as fichas
+  onClientEvent(socket, "abortMatch", ({ resetChips } = {}) => {
     try {
-      console.log(`[DISCONNECT] Socket ${socket.id} desconectou, motivo: ${reason}`);
-      console.log(`[DISCONNECT] Total de sockets conectados agora: ${io.sockets.sockets.size}`);
-      
-      const roomId = socketIdToRoomId.get(socket.id);
-      if (!roomId) {
-        console.log(`[DISCONNECT] Socket ${socket.id} não estava em nenhuma sala`);
+      const room = ownedRoom('Apenas o dono pode interromper a partida');
+      if (!room) return;
+      const result = controllers.get(room.meta.id)!.abort(!!resetChips);
+      if (!result.ok) {
+        emitRoomError(socket, result.code, result.message);
         return;
       }
-      const room = rooms.get(roomId);
-      if (!room) {
-        console.log(`[DISCONNECT] Sala ${roomId} não encontrada`);
+      log.info('Partida interrompida pelo dono', { roomId: room.meta.id, resetChips: !!resetChips });
+      addRoomLog(room.meta.id, `Partida interrompida pelo dono. Fichas ${resetChips ? 'zeradas' : 'mantidas'}.`);
+      io.to(room.meta.id).emit('matchAborted', { resetChips: !!resetChips });
+    } catch (e) {
+      log.error('Erro ao interromper a partida', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro ao interromper a partida');
+    }
+  });
+
+  // Voto de revanche depois do matchFinished; accept false retira o voto
+  onClientEvent(socket, "voteRematch", ({ accept } = {}) => {
+    try {
+      const roomId = socketIdToRoomId.get(socket.id);
+      const playerId = socketIdToPlayerId.get(socket.id);
+      const controller = roomId ? controllers.get(roomId) : undefined;
+      if (!playerId || !controller) {
+        emitRoomError(socket, 'no_rematch_vote', 'Nenhuma revanche em votação');
         return;
       }
+      const result = controller.voteRematch(playerId, accept !== false);
+      if (!result.ok) emitRoomError(socket, result.code, result.message);
+    } catch (e) {
+      log.error('Erro no voto de revanche', { socketId: socket.id, error: e });
+      emitRoomError(socket, 'internal_error', 'Erro no voto de revanche');
+    }
+  });
+
+  // Disconnect
+  socket.on("disconnect", (reason) => {
+    try {
+      log.debug('Socket desconectou', { socketId: socket.id, reason, sockets: io.sockets.sockets.size });
+      removeSpectator(socket.id);
+      chatLimiter.forget(socket.id);
       
-      socket.leave(roomId);
-      socketIdToRoomId.delete(socket.id);
-      const beforeCount = room.game.players.length;
-      room.game.players = room.game.players.filter((p) => p.id !== socket.id);
-      
-      console.log(`[DISCONNECT] Socket ${socket.id} saiu da sala ${roomId}. Jogadores: ${beforeCount} → ${room.game.players.length}`);
-      
-      io.to(roomId).emit("playersUpdate", room.game.players);
+      const roomId = socketIdToRoomId.get(socket.id);
+      const playerId = socketIdToPlayerId.get(socket.id);
+      if (!roomId || !playerId || !rooms.has(roomId)) return;
       
-      if (room.game.players.length === 0) {
-        rooms.delete(roomId);
-        console.log(`[DISCONNECT] Sala ${roomId} vazia, removida`);
-      } else if (room.meta.isGameStarted && room.game.players.length < 2) {
-        room.meta.isGameStarted = false;
-        room.game = createGame();
-        io.to(roomId).emit("gameState", room.game);
+      socket.leave(roomId);
+      if (reason === 'client namespace disconnect') {
+        // Saída explícita do cliente: liberar o assento imediatamente (ou passá-lo a um bot no meio da partida)
+        log.info('Jogador saiu da sala', { roomId, playerId, socketId: socket.id });
+        if (rooms.get(roomId)?.meta.isGameStarted) {
+          replaceWithBot(roomId, playerId);
+        } else {
+          removePlayer(roomId, playerId);
+        }
+      } else {
+        log.info('Jogador caiu; assento reservado', { roomId, playerId, socketId: socket.id, reason, graceMs: RECONNECT_GRACE_MS });
+        markPlayerDisconnected(roomId, playerId);
       }
     } catch (error) {
-      console.error(`[ERROR] Erro em disconnect:`, error);
+      log.error('Erro em disconnect', { socketId: socket.id, error });
     }
   });
-});
+}
 
 // Cleanup periódico
 setInterval(() => {
   try {
     cleanupDisconnectedPlayers();
   } catch (error) {
-    // Silent fail
+    log.error('Erro na limpeza periódica', { error });
   }
+  pruneDeadInstances().catch(error => log.error('Erro ao verificar instâncias', { error }));
 }, 30000);
 
-// Debug endpoint
-app.get("/debug", (req, res) => {
-  const connectedSocketIds = new Set(Array.from(io.sockets.sockets.keys()));
-  const roomsDebug = Array.from(rooms.entries()).map(([roomId, room]) => {
-    const players = room.game.players.map(p => ({
-      id: p.id,
-      nickname: p.nickname,
-      connected: connectedSocketIds.has(p.id)
-    }));
+// Contas: o token vai no header Authorization: Bearer <token>
+function accountFromRequest(req: express.Request): Account | undefined {
+  const header = req.headers.authorization || '';
+  return getAccountByToken(header.startsWith('Bearer ') ? header.slice(7) : undefined);
+}
+
+app.post("/accounts/guest", (req, res) => {
+  if (!guestLimiter.allow(req.ip || req.socket.remoteAddress || '')) {
+    log.warn('Criação de convidado recusada pelo limite', { ip: req.ip });
+    return res.status(429).json({ error: 'Muitas contas criadas; aguarde um pouco', code: 'rate_limited' });
+  }
+  const account = createGuestAccount(req.body?.displayName);
+  log.info('Conta de convidado criada', { accountId: account.id });
+  res.status(201).json({ token: account.token, profile: toPublicProfile(account), avatars: AVATARS });
+});
+
+app.post("/accounts/upgrade", async (req, res) => {
+  try {
+    const result = await upgradeAccount(accountFromRequest(req)?.token, req.body?.username, req.body?.password);
+    if (!result.ok) {
+      return res.status(result.code === 'invalid_token' ? 401 : result.code === 'username_taken' ? 409 : 400).json({ error: result.message, code: result.code });
+    }
+    log.info('Conta registrada', { accountId: result.account.id });
+    res.json({ token: result.account.token, username: result.account.username, profile: toPublicProfile(result.account) });
+  } catch (error) {
+    log.error('Erro ao registrar conta', { error });
+    res.status(500).json({ error: 'Erro ao registrar conta' });
+  }
+});
+
+app.post("/accounts/login", async (req, res) => {
+  try {
+    const result = await loginAccount(req.body?.username, req.body?.password);
+    if (!result.ok) {
+      return res.status(401).json({ error: result.message, code: result.code });
+    }
+    res.json({ token: result.account.token, username: result.account.username, profile: toPublicProfile(result.account) });
+  } catch (error) {
+    log.error('Erro ao entrar na conta', { error });
+    res.status(500).json({ error: 'Erro ao entrar na conta' });
+  }
+});
+
+app.get("/accounts/me", (req, res) => {
+  const account = accountFromRequest(req);
+  if (!account) {
+    return res.status(401).json({ error: 'Conta não encontrada', code: 'invalid_token' });
+  }
+  res.json({ username: account.username, profile: toPublicProfile(account) });
+});
+
+app.post("/accounts/me", (req, res) => {
+  const account = accountFromRequest(req);
+  if (!account) {
+    return res.status(401).json({ error: 'Conta não encontrada', code: 'invalid_token' });
+  }
+  const result = updateProfile(account, { displayName: req.body?.displayName, avatar: req.body?.avatar });
+  if (!result.ok) {
+    return res.status(400).json({ error: result.message, code: result.code, avatars: AVATARS });
+  }
+  res.json({ username: account.username, profile: toPublicProfile(account) });
+});
+
+app.get("/profiles/:accountId", (req, res) => {
+  const account = getAccount(req.params.accountId);
+  if (!account) {
+    return res.status(404).json({ error: 'Perfil não encontrado' });
+  }
+  res.json(toPublicProfile(account));
+});
+
+app.get("/profiles/:accountId/ratings", (req, res) => {
+  if (!getAccount(req.params.accountId)) {
+    return res.status(404).json({ error: 'Perfil não encontrado' });
+  }
+  res.json(getAccountRatings(req.params.accountId));
+});
+
+app.get("/leaderboards", (req, res) => {
+  res.json({ ladders: listLadders() });
+});
+
+// Paginação: ?page=1&pageSize=20 (máximo 100 por página)
+app.get("/leaderboards/:ladder", (req, res) => {
+  const board = getLeaderboard(req.params.ladder, Number(req.query.page ?? 1), Number(req.query.pageSize ?? 20));
+  if (!board) {
+    return res.status(404).json({ error: 'Escada não encontrada' });
+  }
+  res.json(board);
+});
+
+app.get("/ratings/matches/:matchId", (req, res) => {
+  const match = getRatedMatch(req.params.matchId);
+  if (!match) {
+    return res.status(404).json({ error: 'Match não encontrado' });
+  }
+  res.json(match);
+});
+
+app.get("/lobby", (req, res) => {
+  res.json({ rooms: listClusterLobby() });
+});
+
+// Histórico estruturado das mãos já encerradas (a mão em andamento não é exposta)
+app.get("/rooms/:roomId/history", (req, res) => {
+  const finished = (controllers.get(req.params.roomId)?.histories || []).filter(h => h.finishedAt);
+  if (finished.length === 0) {
+    return res.status(404).json({ error: 'Nenhuma mão encerrada para esta sala' });
+  }
+  res.setHeader('Content-Disposition', `attachment; filename="bisca-${req.params.roomId}-history.json"`);
+  res.json({ roomId: req.params.roomId, hands: finished });
+});
+
+// Estado reconstruído de uma mão encerrada após `step` eventos
+app.get("/rooms/:roomId/history/:handNumber/replay", (req, res) => {
+  const handNumber = Number(req.params.handNumber);
+  // Sem ?match= vale o match mais recente que tenha essa mão
+  const matchNumber = req.query.match !== undefined ? Number(req.query.match) : undefined;
+  const history = (controllers.get(req.params.roomId)?.histories || [])
+    .filter(h => h.finishedAt && h.handNumber === handNumber && (matchNumber === undefined || (h.matchNumber || 1) === matchNumber))
+    .pop();
+  if (!history) {
+    return res.status(404).json({ error: 'Mão não encontrada' });
+  }
+  const step = req.query.step !== undefined ? Number(req.query.step) : history.events.length;
+  if (!Number.isInteger(step) || step < 0 || step > history.events.length) {
+    return res.status(400).json({ error: 'Passo inválido', maxStep: history.events.length });
+  }
+  res.json({ roomId: history.roomId, matchNumber: history.matchNumber || 1, handNumber, step, totalSteps: history.events.length, game: replayHand(history, step) });
+});
+
+// Administração: listar e inspecionar salas, encerrar sala, derrubar socket, aviso geral e drenagem
+function adminRoomSummary(room: Room): AdminRoomSummary {
+  const roomId = room.meta.id;
+  const humans = room.game.players.filter(p => !p.isBot);
+  return {
+    roomId,
+    phase: controllers.get(roomId)?.phase,
+    mode: room.meta.mode,
+    teamMode: !!room.meta.teamMode,
+    isPublic: !!room.meta.isPublic,
+    capacity: room.meta.capacity,
+    players: room.game.players.length,
+    connectedPlayers: humans.filter(p => p.connected !== false).length,
+    bots: room.game.players.length - humans.length,
+    spectators: spectatorsByRoom.get(roomId)?.size ?? 0,
+    ownerId: room.meta.ownerId,
+    matchNumber: room.meta.matchNumber || 0,
+    currentRound: room.meta.currentRound || 1,
+    createdAt: room.meta.createdAt,
+  };
+}
+
+// Encerra a sala à força: interrompe a partida, avisa quem está nela e libera assentos, sessões e espectadores
+function closeRoom(roomId: string, reason: string): boolean {
+  const room = rooms.get(roomId);
+  if (!room) return false;
+  const controller = controllers.get(roomId);
+  if (controller && room.meta.isGameStarted) controller.abort(false);
+  io.to(roomId).emit('roomClosed', { roomId, reason });
+  for (const p of room.game.players) {
+    const timer = reconnectTimers.get(p.id);
+    if (timer) {
+      clearTimeout(timer);
+      reconnectTimers.delete(p.id);
+    }
+    deleteSessionForPlayer(p.id);
+    unbindPlayerSocket(p.id);
+  }
+  for (const socketId of Array.from(spectatorsByRoom.get(roomId)?.keys() || [])) removeSpectator(socketId);
+  io.in(roomId).socketsLeave(roomId);
+  deleteRoom(roomId);
+  return true;
+}
+
+// Derruba um socket de qualquer instância. Sentado numa sala desta instância, sai como expulso;
+// numa sala de outra instância o assento fica reservado como numa queda.
+async function kickSocket(socketId: string, reason: string): Promise<boolean> {
+  if ((await io.in(socketId).fetchSockets()).length === 0) return false;
+  const roomId = socketIdToRoomId.get(socketId);
+  const playerId = socketIdToPlayerId.get(socketId);
+  if (roomId && playerId) {
+    addRoomLog(roomId, `${rooms.get(roomId)?.game.players.find(p => p.id === playerId)?.nickname ?? 'Um jogador'} foi desconectado pela administração.`);
+    kickPlayer(roomId, playerId);
+  }
+  removeSpectator(socketId);
+  io.to(socketId).emit('serverNotice', { message: reason, ts: Date.now() });
+  io.in(socketId).disconnectSockets(true);
+  return true;
+}
+
+app.use('/admin', createAdminRouter({
+  instanceId: INSTANCE_ID,
+  listRooms: () => Array.from(rooms.values(), adminRoomSummary),
+  inspectRoom: roomId => {
+    const room = rooms.get(roomId);
+    if (!room) return undefined;
     return {
-      roomId,
-      capacity: room.meta.capacity,
-      started: room.meta.isGameStarted,
-      ownerId: room.meta.ownerId,
-      playersInList: room.game.players.length,
-      playersActuallyConnected: players.filter(p => p.connected).length,
-      players
+      summary: adminRoomSummary(room),
+      meta: room.meta,
+      game: room.game,
+      players: room.game.players.map(p => ({
+        id: p.id,
+        nickname: p.nickname,
+        socketId: playerIdToSocketId.get(p.id),
+        connected: p.connected !== false,
+        isBot: !!p.isBot,
+        accountId: p.accountId,
+      })),
+      spectators: Array.from(spectatorsByRoom.get(roomId)?.entries() || [], ([socketId, s]) => ({ socketId, nickname: s.nickname })),
+      logs: roomLogs.get(roomId) || [],
+      handHistories: controllers.get(roomId)?.histories.length ?? 0,
     };
-  });
-  res.json({
-    totalRooms: rooms.size,
-    totalSocketsConnected: connectedSocketIds.size,
-    rooms: roomsDebug,
-    timestamp: new Date().toISOString()
-  });
-});
+  },
+  roomOwner: roomId => cluster.ownerOf(roomId),
+  closeRoom,
+  kickSocket,
+  // Chega a todos os sockets do cluster, em sala ou no lobby
+  broadcastNotice: message => io.emit('serverNotice', { message, ts: Date.now() }),
+  isDraining: () => draining,
+  setDraining: enabled => {
+    draining = enabled;
+  },
+}, process.env.ADMIN_TOKEN));
 
 const PORT = process.env.PORT || 3000;
 
-httpServer.listen(PORT, () => {
-  console.log(`Servidor rodando na porta ${PORT}`);
-});
+// Salas públicas que as outras instâncias já tinham antes desta subir
+cluster.broadcast({ type: 'lobbySync', origin: INSTANCE_ID });
+
+Promise.all([
+  restoreRooms().catch(error => log.error('Erro ao restaurar salas', { error })),
+  loadAccounts().catch(error => log.error('Erro ao carregar contas', { error })),
+  loadRatings().catch(error => log.error('Erro ao carregar ratings', { error })),
+])
+  .finally(() => {
+    httpServer.listen(PORT, () => {
+      log.info('Servidor rodando', { port: Number(PORT) });
+    });
+  });
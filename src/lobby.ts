@@ -0,0 +1,62 @@
+import { GameMode, LobbyEntry, Room } from "./types";
+
+export interface QuickMatchCriteria {
+  capacity?: number;
+  mode?: GameMode;
+}
+
+export function buildLobbyEntry(room: Room): LobbyEntry {
+  const seated = room.game.players.length;
+  return {
+    roomId: room.meta.id,
+    capacity: room.meta.capacity,
+    seated,
+    nicknames: room.game.players.map(p => p.nickname),
+    totalRounds: room.meta.totalRounds || 1,
+    currentRound: room.meta.currentRound || 1,
+    rules: {
+      mode: room.meta.mode,
+      teamMode: !!room.meta.teamMode,
+      turnTimeoutMs: room.meta.turnTimeoutMs,
+      spectatorMode: room.meta.spectatorMode || 'public',
+      winCondition: room.meta.winCondition || { type: 'rounds' },
+      tieBreaker: room.meta.tieBreaker || 'card_points',
+    },
+    status: room.meta.isGameStarted ? 'playing' : seated >= room.meta.capacity ? 'full' : 'waiting',
+    createdAt: room.meta.createdAt || 0,
+  };
+}
+
+// Salas públicas, da mais antiga para a mais nova
+export function listLobby(rooms: Iterable<Room>): LobbyEntry[] {
+  const entries: LobbyEntry[] = [];
+  for (const room of rooms) {
+    if (room.meta.isPublic) entries.push(buildLobbyEntry(room));
+  }
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Sala mais antiga aguardando jogadores que atende aos critérios (campos ausentes aceitam qualquer valor)
+export function findQuickMatchRoom(rooms: Iterable<Room>, criteria: QuickMatchCriteria): Room | undefined {
+  let best: Room | undefined;
+  for (const room of rooms) {
+    if (!room.meta.isPublic || room.meta.isGameStarted) continue;
+    if (room.game.players.length >= room.meta.capacity) continue;
+    if (criteria.capacity && room.meta.capacity !== criteria.capacity) continue;
+    if (criteria.mode && room.meta.mode !== criteria.mode) continue;
+    if (!best || (room.meta.createdAt || 0) < (best.meta.createdAt || 0)) best = room;
+  }
+  return best;
+}
+
+// O mesmo critério sobre entradas do lobby, para salas de outras instâncias (só a entrada é conhecida)
+export function findQuickMatchEntry(entries: Iterable<LobbyEntry>, criteria: QuickMatchCriteria): LobbyEntry | undefined {
+  let best: LobbyEntry | undefined;
+  for (const entry of entries) {
+    if (entry.status !== 'waiting') continue;
+    if (criteria.capacity && entry.capacity !== criteria.capacity) continue;
+    if (criteria.mode && entry.rules.mode !== criteria.mode) continue;
+    if (!best || entry.createdAt < best.createdAt) best = entry;
+  }
+  return best;
+}
@@ -0,0 +1,80 @@
+// Logs estruturados: uma linha JSON por registro, filtrada pelo nível mínimo (LOG_LEVEL)
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+// Nível mínimo do logger; silent descarta tudo (ex.: nos testes)
+export type LogThreshold = LogLevel | 'silent';
+
+const LEVEL_ORDER: Record<LogThreshold, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 };
+
+// Campos de um registro; roomId, playerId e socketId dão o contexto da sala e do jogador
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger com campos fixos somados a cada registro (ex.: a sala de um controlador)
+  child(context: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogThreshold;
+  context?: LogFields;
+  // Destino de cada linha; padrão console (warn e error no stderr)
+  write?: (level: LogLevel, line: string) => void;
+}
+
+export function isLogLevel(value: unknown): value is LogThreshold {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEVEL_ORDER, value);
+}
+
+// LOG_LEVEL desconhecido ou ausente vale info
+export function parseLogLevel(value: string | undefined): LogThreshold {
+  const level = value?.trim().toLowerCase();
+  return isLogLevel(level) ? level : 'info';
+}
+
+// Error não tem campos enumeráveis: vira { name, message, stack } no JSON
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  return value;
+}
+
+const defaultWrite = (level: LogLevel, line: string) => {
+  if (level === 'warn' || level === 'error') console.error(line);
+  else console.log(line);
+};
+
+// Uma linha JSON por registro: { time, level, msg, ...contexto, ...campos }; abaixo do nível nada é montado
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const threshold = LEVEL_ORDER[options.level ?? 'info'];
+  const context = options.context ?? {};
+  const write = options.write ?? defaultWrite;
+
+  const emit = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[level] < threshold) return;
+    const base = { time: new Date().toISOString(), level, msg: message };
+    // time, level e msg ficam na frente e não são sobrescritos por campos de mesmo nome
+    const record = Object.assign({ ...base }, context, fields, base);
+    let line: string;
+    try {
+      line = JSON.stringify(record, serializeValue);
+    } catch {
+      // Campo que não serializa (ex.: referência circular) não derruba o registro
+      line = JSON.stringify(Object.assign({ ...base }, context, { unserializable: true }, base));
+    }
+    write(level, line);
+  };
+
+  return {
+    debug: emit('debug'),
+    info: emit('info'),
+    warn: emit('warn'),
+    error: emit('error'),
+    child: extra => createLogger({ ...options, context: { ...context, ...extra } }),
+  };
+}
+
+// LOG_LEVEL=debug mostra o detalhe de cada vaza; em produção warn deixa só avisos e erros; os testes rodam com silent
+export const logger = createLogger({ level: parseLogLevel(process.env.LOG_LEVEL) });
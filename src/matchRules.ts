@@ -0,0 +1,136 @@
+import { getTeamStandings } from "./gameLogic";
+import { GameState, MatchEndCondition, RoomMeta, SuddenDeath, TieBreaker, WinCondition } from "./types";
+
+// Teto de mãos por match, para condições que poderiam não terminar (ex.: ninguém ganha fichas)
+export const MAX_MATCH_HANDS = 50;
+
+const DEFAULT_TARGETS: Record<Exclude<WinCondition['type'], 'rounds'>, { value: number; min: number; max: number }> = {
+  chips: { value: 5, min: 1, max: 50 },
+  points: { value: 300, min: 1, max: 5000 },
+  best_of: { value: 3, min: 1, max: 21 },
+};
+
+// Lado do match: um jogador, ou uma dupla no modo em duplas
+export interface MatchSide {
+  index: number; // Assento do jogador, ou número da dupla
+  playerIds: string[];
+  chips: number;
+  matchPoints: number;
+  handsWon: number;
+  handScore: number; // Pontos na mão que acabou de terminar
+}
+
+export type MatchOutcome =
+  | { over: false; suddenDeath?: SuddenDeath }
+  | { over: true; condition: MatchEndCondition; winnerSides: number[]; tieBreak?: 'card_points' | 'sudden_death' | 'shared' };
+
+export function parseWinCondition(raw: unknown): WinCondition {
+  const condition = raw && typeof raw === 'object' ? raw as Partial<WinCondition> : {};
+  if (condition.type !== 'chips' && condition.type !== 'points' && condition.type !== 'best_of') return { type: 'rounds' };
+  const limits = DEFAULT_TARGETS[condition.type];
+  const target = Number.isFinite(condition.target) ? Math.max(limits.min, Math.min(limits.max, Math.floor(condition.target!))) : limits.value;
+  return { type: condition.type, target };
+}
+
+export function parseTieBreaker(raw: unknown): TieBreaker {
+  return raw === 'sudden_death' || raw === 'shared' ? raw : 'card_points';
+}
+
+export function getMatchSides(game: GameState): MatchSide[] {
+  if (game.teamMode) {
+    return getTeamStandings(game).map(t => {
+      const members = game.players.filter(p => p.team === t.team);
+      return {
+        index: t.team,
+        playerIds: t.playerIds,
+        chips: t.chips,
+        matchPoints: members.reduce((sum, p) => sum + (p.matchPoints ?? 0), 0),
+        handsWon: members[0]?.handsWon ?? 0, // Parceiros vencem juntos
+        handScore: t.score,
+      };
+    });
+  }
+  return game.players.map((p, index) => ({
+    index,
+    playerIds: [p.id],
+    chips: p.chips ?? 0,
+    matchPoints: p.matchPoints ?? 0,
+    handsWon: p.handsWon ?? 0,
+    handScore: p.score,
+  }));
+}
+
+// Lados com o maior valor da métrica
+function leaders(sides: MatchSide[], metric: (side: MatchSide) => number): MatchSide[] {
+  const best = Math.max(...sides.map(metric));
+  return sides.filter(s => metric(s) === best);
+}
+
+// Soma a mão encerrada nos totais do match; a mão é de quem fez mais pontos, sem empate
+export function recordHandResult(game: GameState): GameState {
+  const sides = getMatchSides(game);
+  const top = leaders(sides, s => s.handScore);
+  const winnerIds = top.length === 1 ? new Set(top[0].playerIds) : new Set<string>();
+  return {
+    ...game,
+    players: game.players.map(p => ({
+      ...p,
+      matchPoints: (p.matchPoints ?? 0) + p.score,
+      handsWon: (p.handsWon ?? 0) + (winnerIds.has(p.id) ? 1 : 0),
+    })),
+  };
+}
+
+function reachedCondition(condition: WinCondition, sides: MatchSide[], handsPlayed: number, totalRounds: number): MatchEndCondition | undefined {
+  const target = condition.target ?? 0;
+  switch (condition.type) {
+    case 'rounds':
+      if (handsPlayed >= totalRounds) return 'rounds';
+      break;
+    case 'chips':
+      if (sides.some(s => s.chips >= target)) return 'chips_target';
+      break;
+    case 'points':
+      if (sides.some(s => s.matchPoints >= target)) return 'points_target';
+      break;
+    case 'best_of':
+      if (handsPlayed >= target || sides.some(s => s.handsWon > target / 2)) return 'best_of';
+      break;
+  }
+  if (handsPlayed >= MAX_MATCH_HANDS) return 'hand_limit';
+}
+
+// Decide, depois de cada mão, se o match acabou, quem venceu e como o empate foi resolvido
+export function evaluateMatchEnd(game: GameState, meta: RoomMeta, handsPlayed: number): MatchOutcome {
+  const sides = getMatchSides(game);
+
+  // Mão de desempate: vence quem dos empatados fez mais pontos nela; novo empate joga outra
+  if (meta.suddenDeath) {
+    const { condition } = meta.suddenDeath;
+    const contenders = sides.filter(s => meta.suddenDeath!.sides.includes(s.index));
+    const top = leaders(contenders, s => s.handScore);
+    if (top.length === 1) return { over: true, condition, winnerSides: [top[0].index], tieBreak: 'sudden_death' };
+    if (handsPlayed >= MAX_MATCH_HANDS) return { over: true, condition: 'hand_limit', winnerSides: top.map(s => s.index), tieBreak: 'shared' };
+    return { over: false, suddenDeath: { sides: top.map(s => s.index), condition } };
+  }
+
+  const winCondition = meta.winCondition || { type: 'rounds' };
+  const condition = reachedCondition(winCondition, sides, handsPlayed, meta.totalRounds || 1);
+  if (!condition) return { over: false };
+
+  const metric = winCondition.type === 'points' ? (s: MatchSide) => s.matchPoints
+    : winCondition.type === 'best_of' ? (s: MatchSide) => s.handsWon
+    : (s: MatchSide) => s.chips;
+  const top = leaders(sides, metric);
+  if (top.length === 1) return { over: true, condition, winnerSides: [top[0].index] };
+
+  const tieBreaker = meta.tieBreaker || 'card_points';
+  if (tieBreaker === 'card_points') {
+    const byPoints = leaders(top, s => s.matchPoints);
+    if (byPoints.length === 1) return { over: true, condition, winnerSides: [byPoints[0].index], tieBreak: 'card_points' };
+  }
+  if (tieBreaker === 'sudden_death' && condition !== 'hand_limit') {
+    return { over: false, suddenDeath: { sides: top.map(s => s.index), condition } };
+  }
+  return { over: true, condition, winnerSides: top.map(s => s.index), tieBreak: 'shared' };
+}
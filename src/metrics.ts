@@ -0,0 +1,139 @@
+// Métricas no formato de texto do Prometheus (exposition format 0.0.4), servidas em /metrics
+
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: MetricLabels): void;
+  // Soma e quantidade de todas as observações, sem separar por rótulo
+  totals(): { sum: number; count: number };
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  // Valor lido na hora da coleta; pode devolver um número ou uma série por rótulos
+  gauge(name: string, help: string, collect: () => number | { labels: MetricLabels; value: number }[]): void;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  render(): string;
+}
+
+const escapeHelp = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+const escapeLabel = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+// Rótulos em ordem fixa: a mesma série sempre cai na mesma chave
+const labelKey = (labels: MetricLabels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const formatValue = (value: number) => Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+export function createMetricsRegistry(): MetricsRegistry {
+  // Cada métrica sabe se descrever; render junta todas na ordem de registro
+  const renderers: (() => string[])[] = [];
+  const names = new Set<string>();
+
+  const register = (name: string, help: string, type: string, lines: () => string[]) => {
+    if (names.has(name)) throw new Error(`Métrica ${name} registrada duas vezes`);
+    names.add(name);
+    renderers.push(() => [`# HELP ${name} ${escapeHelp(help)}`, `# TYPE ${name} ${type}`, ...lines()]);
+  };
+
+  return {
+    counter(name, help) {
+      const series = new Map<string, { labels: MetricLabels; value: number }>();
+      register(name, help, 'counter', () => {
+        // Contador sem rótulos aparece zerado desde o início
+        if (series.size === 0) return [`${name} 0`];
+        return Array.from(series.values(), s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+      });
+      return {
+        inc(labels = {}, value = 1) {
+          if (value < 0) throw new Error(`Contador ${name} não pode diminuir`);
+          const key = labelKey(labels);
+          const current = series.get(key);
+          if (current) current.value += value;
+          else series.set(key, { labels: { ...labels }, value });
+        },
+      };
+    },
+
+    gauge(name, help, collect) {
+      register(name, help, 'gauge', () => {
+        let value: ReturnType<typeof collect>;
+        try {
+          value = collect();
+        } catch {
+          return [];
+        }
+        if (typeof value === 'number') return [`${name} ${formatValue(value)}`];
+        return value.map(s => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+      });
+    },
+
+    histogram(name, help, buckets) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+      register(name, help, 'histogram', () => {
+        const all = series.size > 0 ? Array.from(series.values()) : [{ labels: {}, counts: bounds.map(() => 0), sum: 0, count: 0 }];
+        return all.flatMap(s => [
+          ...bounds.map((le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`),
+          `${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+          `${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`,
+          `${name}_count${formatLabels(s.labels)} ${s.count}`,
+        ]);
+      });
+      return {
+        observe(value, labels = {}) {
+          const key = labelKey(labels);
+          let current = series.get(key);
+          if (!current) {
+            current = { labels: { ...labels }, counts: bounds.map(() => 0), sum: 0, count: 0 };
+            series.set(key, current);
+          }
+          // Buckets cumulativos: a observação conta em todo limite maior ou igual a ela
+          bounds.forEach((le, i) => {
+            if (value <= le) current!.counts[i]++;
+          });
+          current.sum += value;
+          current.count++;
+        },
+        totals() {
+          let sum = 0;
+          let count = 0;
+          for (const s of series.values()) {
+            sum += s.sum;
+            count += s.count;
+          }
+          return { sum, count };
+        },
+      };
+    },
+
+    render() {
+      return renderers.flatMap(render => render()).join('\n') + '\n';
+    },
+  };
+}
+
+export const metrics = createMetricsRegistry();
+
+// Métricas do jogo; as que dependem do estado do servidor (salas ativas, sockets) são registradas no index
+export const gameMetrics = {
+  gamesStarted: metrics.counter('bisca_games_started_total', 'Matches iniciados'),
+  gamesFinished: metrics.counter('bisca_games_finished_total', 'Matches encerrados, por motivo (completed ou aborted)'),
+  handDuration: metrics.histogram('bisca_hand_duration_seconds', 'Duração das mãos, da distribuição à última vaza', [30, 60, 120, 180, 300, 600, 900]),
+  rejectedPlays: metrics.counter('bisca_rejected_plays_total', 'Jogadas recusadas, por motivo'),
+  disconnects: metrics.counter('bisca_disconnects_total', 'Sockets desconectados, por motivo'),
+};
+
+metrics.gauge('bisca_hand_duration_average_seconds', 'Duração média das mãos terminadas desde que a instância subiu', () => {
+  const { sum, count } = gameMetrics.handDuration.totals();
+  return count > 0 ? sum / count : 0;
+});
@@ -0,0 +1,83 @@
+import { capturedFromOpponent, hasPlayedCard } from "./chipRules";
+import { getLegalCards, getTrumpSuit } from "./gameLogic";
+import { GameState, GameView, Player, PlayerView, PublicPlayer } from "./types";
+
+export function toPublicPlayer(player: Player): PublicPlayer {
+  return {
+    id: player.id,
+    nickname: player.nickname,
+    handCount: player.hand.length,
+    score: player.score,
+    capturedCount: player.capturedCards.length,
+    chips: player.chips,
+    connected: player.connected !== false,
+    team: player.team,
+    isBot: player.isBot,
+    away: player.away,
+    accountId: player.accountId,
+    avatar: player.avatar,
+  };
+}
+
+export function toPublicPlayers(players: Player[]): PublicPlayer[] {
+  return players.map(toPublicPlayer);
+}
+
+// Visão de espectador: pública, ou com todas as mãos abertas (usada só com atraso)
+export function buildSpectatorView(game: GameState, revealHands: boolean): GameView {
+  const view = buildGameView(game, null);
+  if (revealHands) {
+    view.players = view.players.map((p, index) => ({
+      ...p,
+      hand: [...game.players[index].hand],
+      capturedCards: [...game.players[index].capturedCards],
+    }));
+  }
+  return view;
+}
+
+// Monta a visão do jogo para um observador: a própria mão visível,
+// adversários reduzidos a contagens e o baralho reduzido ao tamanho
+export function buildGameView(game: GameState, viewerId: string | null): GameView {
+  const players: PlayerView[] = game.players.map(p => {
+    const view: PlayerView = toPublicPlayer(p);
+    if (viewerId !== null && p.id === viewerId) {
+      view.hand = [...p.hand];
+      view.capturedCards = [...p.capturedCards];
+    }
+    return view;
+  });
+
+  return {
+    viewerId,
+    mode: game.mode,
+    teamMode: game.teamMode,
+    teamChips: game.teamChips,
+    players,
+    table: game.table,
+    turn: game.turn,
+    trumpCard: game.trumpCard,
+    deckCount: game.deck.length,
+    roundNumber: game.roundNumber,
+    isGameStarted: game.isGameStarted,
+    seedHash: game.seedHash,
+    turnDeadline: game.turnDeadline,
+    legalMoves: viewerId !== null ? getLegalCards(game, viewerId) : [],
+    lastTrickWinnerId: game.lastTrickWinnerId,
+    lastTrickCards: game.lastTrickCards,
+    ...buildChipFlags(game),
+  };
+}
+
+// Sinalizadores do A e do 7 de trunfo, derivados das vazas da mão (compatíveis com as visões anteriores)
+function buildChipFlags(game: GameState): Pick<GameView, 'playedTrumpAByPlayerId' | 'capturedOppTrump7ByPlayerId'> {
+  if (!game.trumpCard) return { playedTrumpAByPlayerId: {}, capturedOppTrump7ByPlayerId: {} };
+  const trumpSuit = getTrumpSuit(game.trumpCard);
+  const playedTrumpAByPlayerId: Record<string, boolean> = {};
+  const capturedOppTrump7ByPlayerId: Record<string, boolean> = {};
+  for (const p of game.players) {
+    if (hasPlayedCard(game, p.id, 'A' + trumpSuit)) playedTrumpAByPlayerId[p.id] = true;
+    if (capturedFromOpponent(game, p.id, '7' + trumpSuit)) capturedOppTrump7ByPlayerId[p.id] = true;
+  }
+  return { playedTrumpAByPlayerId, capturedOppTrump7ByPlayerId };
+}
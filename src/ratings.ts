@@ -0,0 +1,142 @@
+import { randomBytes } from "crypto";
+import { getAccount } from "./accounts";
+import { logger } from "./logger";
+import { createRatingStore } from "./storage";
+import { GameMode, Ladder, RatedMatch, Rating, RatingChange } from "./types";
+
+const log = logger.child({ scope: 'ratings' });
+
+export const INITIAL_RATING = 1500;
+// Fator K do match inteiro; dividido entre os confrontos de cada jogador
+const K_FACTOR = 32;
+const MAX_PAGE_SIZE = 100;
+
+// Participante avaliado: só contas registradas entram na escada
+export interface RatedParticipant {
+  accountId: string;
+  chips: number;
+  won: boolean; // Vencedor pela condição do match (já considerando desempate)
+  team?: number; // Parceiros não se enfrentam
+}
+
+export interface LeaderboardPage {
+  ladder: string;
+  page: number;
+  pageSize: number;
+  total: number;
+  entries: { rank: number; accountId: string; displayName: string; rating: number; matches: number; wins: number }[];
+}
+
+const ladders = new Map<string, Ladder>();
+const ratedMatches = new Map<string, RatedMatch>();
+const ratingStore = createRatingStore();
+
+export async function loadRatings() {
+  const stored = await ratingStore.loadAll();
+  stored.ladders.forEach(l => ladders.set(l.key, l));
+  stored.matches.forEach(m => ratedMatches.set(m.id, m));
+  if (stored.matches.length > 0) log.info('Ratings carregados', { ladders: stored.ladders.length, matches: stored.matches.length });
+}
+
+// Escadas separadas por quantidade de jogadores e modo de regras
+export function ladderKey(playerCount: number, mode: GameMode, teamMode: boolean): string {
+  return `${playerCount}p_${mode}${teamMode ? '_teams' : ''}`;
+}
+
+// Resultado de i contra j: vencedor do match acima; entre iguais, quem tem mais fichas
+function compareResult(a: RatedParticipant, b: RatedParticipant): number {
+  if (a.won !== b.won) return a.won ? 1 : -1;
+  return Math.sign(a.chips - b.chips);
+}
+
+// Elo multi-jogador: cada par de adversários é um confronto (vitória 1, empate 0,5, derrota 0)
+export function computeRatingDeltas(ratings: number[], participants: RatedParticipant[]): number[] {
+  return participants.map((p, i) => {
+    let sum = 0;
+    let opponents = 0;
+    participants.forEach((q, j) => {
+      if (i === j || (p.team !== undefined && p.team === q.team)) return;
+      const expected = 1 / (1 + Math.pow(10, (ratings[j] - ratings[i]) / 400));
+      const actual = (compareResult(p, q) + 1) / 2;
+      sum += actual - expected;
+      opponents++;
+    });
+    return opponents > 0 ? Math.round((K_FACTOR / opponents) * sum) : 0;
+  });
+}
+
+// Atualiza a escada do match; precisa de ao menos duas contas registradas adversárias
+export function recordMatchRatings(ladder: string, roomId: string, matchNumber: number, participants: RatedParticipant[]): RatedMatch | undefined {
+  const rated = participants.filter(p => getAccount(p.accountId)?.username);
+  const hasOpponents = rated.some(p => rated.some(q => q !== p && (p.team === undefined || p.team !== q.team)));
+  if (!hasOpponents) return;
+
+  const entry = ladders.get(ladder) || { key: ladder, ratings: {} };
+  const now = Date.now();
+  const current = rated.map(p => entry.ratings[p.accountId] || { accountId: p.accountId, rating: INITIAL_RATING, matches: 0, wins: 0, updatedAt: now });
+  const deltas = computeRatingDeltas(current.map(r => r.rating), rated);
+
+  const changes: RatingChange[] = rated.map((p, i) => {
+    const before = current[i].rating;
+    const after = before + deltas[i];
+    const updated: Rating = { ...current[i], rating: after, matches: current[i].matches + 1, wins: current[i].wins + (p.won ? 1 : 0), updatedAt: now };
+    entry.ratings[p.accountId] = updated;
+    return {
+      accountId: p.accountId,
+      displayName: getAccount(p.accountId)?.displayName || p.accountId,
+      place: 1 + rated.filter(q => compareResult(q, p) > 0).length,
+      chips: p.chips,
+      before,
+      after,
+      delta: deltas[i],
+    };
+  }).sort((a, b) => a.place - b.place);
+
+  const match: RatedMatch = { id: 'm_' + randomBytes(8).toString('hex'), ladder, roomId, matchNumber, finishedAt: now, changes };
+  ladders.set(ladder, entry);
+  ratedMatches.set(match.id, match);
+  ratingStore.saveLadder(entry).catch(error => log.error('Erro ao salvar escada', { ladder, error }));
+  ratingStore.saveMatch(match).catch(error => log.error('Erro ao salvar match', { matchId: match.id, error }));
+  return match;
+}
+
+export function listLadders(): { key: string; players: number }[] {
+  return Array.from(ladders.values()).map(l => ({ key: l.key, players: Object.keys(l.ratings).length }));
+}
+
+export function getLeaderboard(ladder: string, page: number, pageSize: number): LeaderboardPage | undefined {
+  const entry = ladders.get(ladder);
+  if (!entry) return;
+  const size = Math.max(1, Math.min(MAX_PAGE_SIZE, Math.floor(pageSize) || 20));
+  const current = Math.max(1, Math.floor(page) || 1);
+  const sorted = Object.values(entry.ratings).sort((a, b) => b.rating - a.rating || b.wins - a.wins || a.updatedAt - b.updatedAt);
+  return {
+    ladder,
+    page: current,
+    pageSize: size,
+    total: sorted.length,
+    entries: sorted.slice((current - 1) * size, current * size).map((r, i) => ({
+      rank: (current - 1) * size + i + 1,
+      accountId: r.accountId,
+      displayName: getAccount(r.accountId)?.displayName || r.accountId,
+      rating: r.rating,
+      matches: r.matches,
+      wins: r.wins,
+    })),
+  };
+}
+
+// Ratings atuais da conta em cada escada e os matches que os mudaram (mais recentes primeiro)
+export function getAccountRatings(accountId: string): { ratings: (Rating & { ladder: string })[]; history: RatedMatch[] } {
+  const ratings = Array.from(ladders.values())
+    .filter(l => l.ratings[accountId])
+    .map(l => ({ ladder: l.key, ...l.ratings[accountId] }));
+  const history = Array.from(ratedMatches.values())
+    .filter(m => m.changes.some(c => c.accountId === accountId))
+    .sort((a, b) => b.finishedAt - a.finishedAt);
+  return { ratings, history };
+}
+
+export function getRatedMatch(matchId: string): RatedMatch | undefined {
+  return ratedMatches.get(matchId);
+}
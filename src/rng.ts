@@ -0,0 +1,34 @@
+import { createHash, randomBytes } from "crypto";
+
+// Gerador de números em [0, 1); Math.random tem a mesma assinatura
+export type Rng = () => number;
+
+export function generateSeed(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// Compromisso publicado no início da mão; a semente só é revelada no fim
+export function hashSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+// sfc32 inicializado com os 16 primeiros bytes de sha256(seed).
+// Os clientes podem reimplementar isto para conferir embaralhamento e trunfo.
+export function createRng(seed: string): Rng {
+  const digest = createHash('sha256').update(seed).digest();
+  let a = digest.readUInt32BE(0);
+  let b = digest.readUInt32BE(4);
+  let c = digest.readUInt32BE(8);
+  let d = digest.readUInt32BE(12);
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
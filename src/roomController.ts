@@ -0,0 +1,564 @@
+import { createGame, getTeamStandings, isHandOver, playCard, resolveTrick, startGame, validatePlay } from "./gameLogic";
+import { applyChipAwards, evaluateChipRules, getChipRule, resolveChipRules } from "./chipRules";
+import { evaluateMatchEnd, getMatchSides, recordHandResult } from "./matchRules";
+import { ladderKey, recordMatchRatings } from "./ratings";
+import { recordChipsEarned, recordHandPlayed } from "./accounts";
+import { beginHandHistory, recordChips, recordPlay, recordTrick } from "./history";
+import { chooseBotCard } from "./bots";
+import { AwayVoteAction, RoomErrorCode, ServerToClientEvents } from "./events";
+import { logger } from "./logger";
+import { gameMetrics } from "./metrics";
+import { ChipAward, ChipRulePhase, HandHistory, PlayValidation, Room, TeamChipAward, TrickRecord } from "./types";
+
+// Fluxo da partida de uma sala, sem depender do transporte: o Socket.IO (ou um teste) só chama os comandos
+// e recebe os efeitos pelos hooks.
+//
+// lobby -> dealing -> playing <-> trick_resolving -> hand_finished -> dealing (próxima mão)
+//                                                                  -> match_finished (revanche votada) -> dealing
+// Qualquer fase com partida em andamento volta ao lobby ao interromper.
+export type RoomPhase = 'lobby' | 'dealing' | 'playing' | 'trick_resolving' | 'hand_finished' | 'match_finished';
+
+// Pausa com a mesa cheia antes de recolher a vaza, para todos verem as cartas
+export const TRICK_RESOLVE_DELAY_MS = 2500;
+// Tempos esgotados seguidos até o jogador ser marcado como ausente
+export const AWAY_AFTER_TIMEOUTS = 3;
+const MAX_HAND_HISTORIES = 50;
+
+type RoomCommand = 'start' | 'play' | 'resolveTrick' | 'abort' | 'voteRematch';
+
+// Fases em que cada comando é aceito
+const ALLOWED_PHASES: Record<RoomCommand, RoomPhase[]> = {
+  start: ['lobby'],
+  play: ['playing'],
+  resolveTrick: ['trick_resolving'],
+  abort: ['dealing', 'playing', 'trick_resolving', 'hand_finished'],
+  voteRematch: ['match_finished'],
+};
+
+// Evento para todos na sala, com o payload tipado pelo contrato do servidor
+export type RoomBroadcast = { [E in keyof ServerToClientEvents]: [event: E, ...args: Parameters<ServerToClientEvents[E]>] }[keyof ServerToClientEvents];
+
+export interface RoomControllerHooks {
+  broadcast: (...message: RoomBroadcast) => void;
+  stateChanged: () => void; // Estado do jogo mudou: enviar as visões e salvar
+  playersChanged: () => void; // Assentos, fichas ou conexão mudaram
+  log: (text: string) => void;
+  phaseChanged?: (phase: RoomPhase, previous: RoomPhase) => void;
+  // Agenda uma chamada e devolve como cancelá-la; padrão setTimeout (testes passam um relógio manual)
+  schedule?: (callback: () => void, ms: number) => () => void;
+  now?: () => number; // Relógio do prazo da vez; padrão Date.now
+}
+
+export type RoomCommandResult = { ok: true } | { ok: false; code: RoomErrorCode; message: string };
+// Voto aceito; `decided` traz a ação quando a maioria fechou (expulsar ou substituir fica com quem chamou)
+export type AwayVoteResult = { ok: true; decided?: AwayVoteAction } | { ok: false; code: RoomErrorCode; message: string };
+
+export interface RoomController {
+  readonly phase: RoomPhase;
+  readonly histories: HandHistory[]; // Mãos do histórico exportável, da mais antiga para a mais nova
+  start(): RoomCommandResult;
+  play(playerId: string, card: string): PlayValidation;
+  abort(resetChips: boolean): RoomCommandResult;
+  returnToLobby(resetChips: boolean): void;
+  kick(playerId: string): RoomCommandResult;
+  voteRematch(playerId: string, accept: boolean): RoomCommandResult;
+  dropRematchVote(playerId: string): void;
+  voteAway(voterId: string, targetPlayerId: string, action: AwayVoteAction): AwayVoteResult;
+  replaceWithBot(playerId: string): void;
+  resume(): void;
+  dispose(): void;
+}
+
+const defaultSchedule = (callback: () => void, ms: number) => {
+  const timer = setTimeout(callback, ms);
+  return () => clearTimeout(timer);
+};
+
+// Fase de uma sala salva: o que está em meta e na mesa basta para retomar
+function derivePhase(room: Room): RoomPhase {
+  if (!room.meta.isGameStarted) return room.meta.awaitingRematch ? 'match_finished' : 'lobby';
+  return room.game.table.length >= room.game.players.length ? 'trick_resolving' : 'playing';
+}
+
+export function createRoomController(room: Room, hooks: RoomControllerHooks, histories: HandHistory[] = []): RoomController {
+  const schedule = hooks.schedule ?? defaultSchedule;
+  const now = hooks.now ?? Date.now;
+  const roomId = room.meta.id;
+  const log = logger.child({ scope: 'room', roomId });
+  let phase = derivePhase(room);
+  let cancelTrickResolution: (() => void) | undefined;
+  // Prazo armado para a vez atual; a chave muda quando a vez muda
+  let turnTimer: { key: string; cancel: () => void } | undefined;
+  // Votos de revanche ficam só em memória; após reinício do servidor a votação recomeça
+  const rematchVotes = new Set<string>();
+  // Votos da mesa contra jogadores ausentes: jogador alvo -> ação e votantes
+  const awayVotes = new Map<string, { action: AwayVoteAction; voters: Set<string> }>();
+
+  const allowed = (command: RoomCommand) => ALLOWED_PHASES[command].includes(phase);
+
+  function setPhase(next: RoomPhase) {
+    if (next === phase) return;
+    const previous = phase;
+    phase = next;
+    // Fora da partida não há votos de ausência pendentes
+    if (next === 'lobby' || next === 'match_finished') awayVotes.clear();
+    hooks.phaseChanged?.(next, previous);
+  }
+
+  // Estado mudou: acerta o prazo da vez antes de as visões saírem
+  function stateChanged() {
+    syncTurnTimer();
+    hooks.stateChanged();
+  }
+
+  function clearTurnTimer() {
+    turnTimer?.cancel();
+    turnTimer = undefined;
+  }
+
+  // Garante que a vez atual tem um prazo (e um timer) se a sala tiver tempo por jogada.
+  // É idempotente: enquanto a vez não muda, o prazo publicado continua o mesmo.
+  function syncTurnTimer() {
+    const game = room.game;
+    const timeoutMs = room.meta.turnTimeoutMs;
+    const current = game.players[game.turn];
+    if (!timeoutMs || phase !== 'playing' || !current || current.isBot) {
+      clearTurnTimer();
+      game.turnDeadline = undefined;
+      return;
+    }
+    const key = `${room.meta.currentRound}:${game.roundNumber}:${game.table.length}:${current.id}`;
+    if (turnTimer?.key === key) return;
+
+    clearTurnTimer();
+    game.turnDeadline = now() + timeoutMs;
+    turnTimer = { key, cancel: schedule(() => handleTurnTimeout(key), timeoutMs) };
+  }
+
+  // Tempo esgotado: joga uma carta válida pelo jogador e conta a falta
+  function handleTurnTimeout(key: string) {
+    if (turnTimer?.key !== key) return;
+    turnTimer = undefined;
+    try {
+      const player = room.game.players[room.game.turn];
+      if (!allowed('play') || !player || player.isBot) return;
+      const card = chooseBotCard(room.game, player.id, 'smart');
+      if (!card) return;
+
+      const missedTurns = (player.missedTurns ?? 0) + 1;
+      const away = missedTurns >= AWAY_AFTER_TIMEOUTS;
+      room.game.players = room.game.players.map(p => p.id === player.id ? { ...p, missedTurns, away } : p);
+      log.info('Tempo esgotado; carta jogada automaticamente', { playerId: player.id, missedTurns, card });
+      hooks.log(`Tempo esgotado para ${player.nickname}. Carta jogada automaticamente.`);
+      if (away && !player.away) {
+        hooks.log(`${player.nickname} está ausente. A mesa pode votar para substituir ou expulsar.`);
+        hooks.broadcast('playerAway', { playerId: player.id, nickname: player.nickname, missedTurns });
+        hooks.playersChanged();
+      }
+      applyPlay(player.id, card, false);
+    } catch (error) {
+      log.error('Erro ao jogar por tempo esgotado', { error });
+    }
+  }
+
+  // Jogou por conta própria: zera as faltas e tira a marca de ausente
+  function markPresent(playerId: string) {
+    const player = room.game.players.find(p => p.id === playerId);
+    if (!player || (!player.missedTurns && !player.away)) return;
+    room.game.players = room.game.players.map(p => p.id === playerId ? { ...p, missedTurns: 0, away: false } : p);
+    if (!player.away) return;
+    awayVotes.delete(playerId);
+    hooks.log(`${player.nickname} voltou.`);
+    hooks.playersChanged();
+  }
+
+  // Aplica uma jogada já com o jogador da vez; `byPlayer` diz se foi ele (socket ou bot) ou o tempo esgotado
+  function applyPlay(playerId: string, card: string, byPlayer: boolean): PlayValidation {
+    const validation = validatePlay(room.game, playerId, card);
+    if (!validation.ok) return validation;
+    const before = room.game;
+    room.game = playCard(room.game, playerId, card);
+    if (room.game === before) return { ok: false, code: 'internal_error', message: 'Jogada não aplicada' };
+    const history = currentHistory();
+    if (history) recordPlay(history, before, playerId, card);
+    if (byPlayer) markPresent(playerId);
+    // Mesa cheia: fica visível até a vaza ser recolhida
+    if (room.game.table.length === room.game.players.length) {
+      setPhase('trick_resolving');
+      scheduleTrickResolution();
+    }
+    stateChanged();
+    return validation;
+  }
+
+  // Histórico da mão em andamento (a última, se ainda não terminou)
+  function currentHistory(): HandHistory | undefined {
+    const last = histories[histories.length - 1];
+    return last && !last.finishedAt ? last : undefined;
+  }
+
+  // Motivo pelo qual a partida não pode começar com os assentos atuais, se houver
+  function getStartError(): string | undefined {
+    const playerCount = room.game.players.length;
+    if (playerCount < 2 || playerCount > room.meta.capacity) return 'Número de jogadores inválido';
+    if (room.meta.teamMode && playerCount !== 4) return 'Modo em duplas exige 4 jogadores';
+  }
+
+  // Distribui a primeira mão do match; numa revanche aplica antes a regra de fichas da sala
+  function startMatch() {
+    if (phase === 'match_finished') {
+      room.meta.awaitingRematch = false;
+      rematchVotes.clear();
+      if (room.meta.rematchChips !== 'carry') {
+        room.game = { ...room.game, teamChips: undefined, players: room.game.players.map(p => ({ ...p, chips: 0 })) };
+      }
+    }
+    // Totais do match recomeçam a cada match, mesmo quando as fichas são mantidas
+    room.game = { ...room.game, players: room.game.players.map(p => ({ ...p, matchPoints: 0, handsWon: 0 })) };
+    room.meta.currentRound = 1;
+    room.meta.suddenDeath = undefined;
+    room.meta.matchNumber = (room.meta.matchNumber || 0) + 1;
+    gameMetrics.gamesStarted.inc();
+    log.info('Match iniciado', { matchNumber: room.meta.matchNumber, players: room.game.players.length });
+    dealHand();
+  }
+
+  // Distribui uma mão a partir do estado atual (sem cartas) e aplica as regras de fichas da distribuição
+  function dealHand() {
+    setPhase('dealing');
+    const beforeDeal = room.game;
+    room.game = startGame(room.game);
+    room.meta.isGameStarted = true;
+    histories.push(beginHandHistory(roomId, room.meta.matchNumber || 1, room.meta.currentRound || 1, beforeDeal, room.game));
+    if (histories.length > MAX_HAND_HISTORIES) histories.shift();
+    setPhase('playing');
+    stateChanged();
+    hooks.broadcast('gameStarted', { seedHash: room.game.seedHash });
+    // Não revelar o K do trunfo: só o que as regras da distribuição anunciam
+    hooks.log(`Jogo iniciado. Trunfo: ${room.game.trumpCard}`);
+    const dealChips = awardChips('deal');
+    if (dealChips.awards.length > 0 || dealChips.teamAwards.length > 0) stateChanged();
+  }
+
+  // Soma nas contas as fichas ganhas por motivo; prêmios só da dupla contam para os dois parceiros
+  function recordAccountChips(awards: ChipAward[], teamOnlyAwards: TeamChipAward[]) {
+    const points = new Map((room.meta.chipRules || resolveChipRules()).map(r => [r.code, r.points]));
+    const byReason = (reasons: string[]) => Object.fromEntries(reasons.map(code => [code, points.get(code) ?? 1]));
+    for (const award of awards) {
+      const accountId = room.game.players.find(p => p.id === award.playerId)?.accountId;
+      if (accountId) recordChipsEarned(accountId, byReason(award.reasons));
+    }
+    for (const award of teamOnlyAwards) {
+      for (const p of room.game.players.filter(p => p.team === award.team && p.accountId)) {
+        recordChipsEarned(p.accountId!, byReason(award.reasons));
+      }
+    }
+  }
+
+  // Avalia as regras de fichas da sala numa fase, credita os prêmios e grava no histórico da mão.
+  // Fora do fim da mão os prêmios também saem em chipsAwarded (no fim eles vão no roundFinished).
+  function awardChips(chipPhase: ChipRulePhase, trick?: TrickRecord): { awards: ChipAward[]; teamAwards: TeamChipAward[] } {
+    const { awards, teamOnlyAwards } = evaluateChipRules(room.meta.chipRules || resolveChipRules(), chipPhase, room.game, trick);
+    if (chipPhase !== 'hand_end' && awards.length === 0 && teamOnlyAwards.length === 0) return { awards, teamAwards: [] };
+    const credited = applyChipAwards(room.game, awards, teamOnlyAwards);
+    room.game = credited.game;
+    const teamMode = room.game.teamMode;
+    const history = currentHistory();
+    if (history) recordChips(history, chipPhase, awards, teamMode ? credited.teamAwards : undefined);
+    recordAccountChips(awards, teamOnlyAwards);
+    if (chipPhase !== 'hand_end') {
+      for (const award of awards) {
+        const player = room.game.players.find(p => p.id === award.playerId);
+        const descriptions = award.reasons.map(code => getChipRule(code)?.description || code);
+        if (player) hooks.log(`${player.nickname} ${descriptions.join(' e ')}.`);
+      }
+      hooks.broadcast('chipsAwarded', teamMode ? { phase: chipPhase, awards, teamAwards: credited.teamAwards } : { phase: chipPhase, awards });
+    }
+    return { awards, teamAwards: credited.teamAwards };
+  }
+
+  function scheduleTrickResolution() {
+    if (cancelTrickResolution) return;
+    cancelTrickResolution = schedule(() => {
+      cancelTrickResolution = undefined;
+      try {
+        resolvePendingTrick();
+      } catch (error) {
+        log.error('Erro ao recolher a vaza', { error });
+      }
+    }, TRICK_RESOLVE_DELAY_MS);
+  }
+
+  function resolvePendingTrick() {
+    if (!allowed('resolveTrick')) return;
+    const before = room.game;
+    room.game = resolveTrick(room.game);
+    const trick = room.game.tricks?.[room.game.tricks.length - 1];
+    if (room.game === before || !trick) {
+      log.error('Vaza não pôde ser resolvida', { table: room.game.table.length });
+      return;
+    }
+    const history = currentHistory();
+    if (history) recordTrick(history, room.game);
+    const handOver = isHandOver(room.game);
+    setPhase(handOver ? 'hand_finished' : 'playing');
+    stateChanged();
+    const trickChips = awardChips('trick', trick);
+    if (trickChips.awards.length > 0 || trickChips.teamAwards.length > 0) stateChanged();
+    const winner = room.game.players.find(p => p.id === trick.winnerId);
+    hooks.broadcast('trickWon', {
+      winnerId: trick.winnerId,
+      winnerNickname: winner?.nickname || '—',
+      cards: trick.cards,
+      roundNumber: room.game.roundNumber - 1,
+    });
+    if (handOver) finishHand();
+  }
+
+  // Fim da mão: fichas de fim de mão, totais do match e então próxima mão, desempate ou fim do match
+  function finishHand() {
+    const teamMode = room.game.teamMode;
+    const { awards: chipsAwarded, teamAwards } = awardChips('hand_end');
+    const history = currentHistory();
+    if (history) {
+      history.finishedAt = Date.now();
+      gameMetrics.handDuration.observe((history.finishedAt - history.startedAt) / 1000);
+    }
+    const handsWonBefore = new Map(room.game.players.map(p => [p.id, p.handsWon ?? 0]));
+    room.game = recordHandResult(room.game);
+    for (const p of room.game.players) {
+      if (p.accountId) recordHandPlayed(p.accountId, (p.handsWon ?? 0) > (handsWonBefore.get(p.id) ?? 0));
+    }
+
+    hooks.broadcast('roundFinished', {
+      scores: room.game.players.map(p => ({ id: p.id, nickname: p.nickname, score: p.score, team: p.team })),
+      chipsAwarded,
+      totalChips: room.game.players.map(p => ({ id: p.id, nickname: p.nickname, chips: p.chips ?? 0, matchPoints: p.matchPoints ?? 0, handsWon: p.handsWon ?? 0 })),
+      trumpCard: room.game.trumpCard,
+      // Revelação da semente: sha256(seed) deve bater com o seedHash publicado no início da mão
+      seed: room.game.seed,
+      seedHash: room.game.seedHash,
+      ...(teamMode ? { teamChipsAwarded: teamAwards, teamStandings: getTeamStandings(room.game) } : {}),
+    });
+
+    // Avançar rodada do match e verificar a condição de vitória
+    room.meta.currentRound = (room.meta.currentRound || 1) + 1;
+    const outcome = evaluateMatchEnd(room.game, room.meta, room.meta.currentRound - 1);
+
+    if (!outcome.over && outcome.suddenDeath) {
+      const startingSuddenDeath = !room.meta.suddenDeath;
+      room.meta.suddenDeath = outcome.suddenDeath;
+      const sides = getMatchSides(room.game).filter(s => outcome.suddenDeath!.sides.includes(s.index));
+      const names = sides.map(s => s.playerIds.map(id => room.game.players.find(p => p.id === id)?.nickname).join(' e '));
+      hooks.log(`${startingSuddenDeath ? 'Empate' : 'Novo empate'}! Mão de desempate entre ${names.join(', ')}.`);
+      hooks.broadcast('suddenDeath', { sides: outcome.suddenDeath.sides, playerIds: sides.flatMap(s => s.playerIds), condition: outcome.suddenDeath.condition });
+    }
+
+    if (!outcome.over) {
+      // Próxima mão com os mesmos jogadores: mantém identidade, conexão, bots e fichas; zera só o que é da mão
+      const nextGame = createGame(room.meta.mode, room.meta.teamMode);
+      nextGame.players = room.game.players.map(p => ({ ...p, hand: [], score: 0, capturedCards: [], chips: p.chips ?? 0 }));
+      nextGame.teamChips = room.game.teamChips;
+      room.game = nextGame;
+      dealHand();
+      return;
+    }
+
+    room.meta.suddenDeath = undefined;
+    const standings = room.game.players.map(p => ({ id: p.id, nickname: p.nickname, chips: p.chips ?? 0, matchPoints: p.matchPoints ?? 0, handsWon: p.handsWon ?? 0, team: p.team }));
+    const winnerIds = new Set(getMatchSides(room.game).filter(s => outcome.winnerSides.includes(s.index)).flatMap(s => s.playerIds));
+    const ratedMatch = recordMatchRatings(
+      ladderKey(room.game.players.length, room.meta.mode, teamMode),
+      roomId,
+      room.meta.matchNumber || 1,
+      room.game.players.filter(p => p.accountId).map(p => ({ accountId: p.accountId!, chips: p.chips ?? 0, won: winnerIds.has(p.id), team: teamMode ? p.team : undefined })),
+    );
+    const result = {
+      winners: standings.filter(p => winnerIds.has(p.id)),
+      standings,
+      endCondition: outcome.condition,
+      tieBreak: outcome.tieBreak,
+      winCondition: room.meta.winCondition || { type: 'rounds' as const, target: room.meta.totalRounds || 1 },
+      ratingChanges: ratedMatch?.changes || [],
+    };
+    gameMetrics.gamesFinished.inc({ reason: 'completed' });
+    log.info('Match encerrado', { matchNumber: room.meta.matchNumber, condition: outcome.condition, winners: result.winners.map(w => w.id) });
+    hooks.broadcast('matchFinished', teamMode ? { ...result, winningTeams: outcome.winnerSides, teamStandings: getTeamStandings(room.game) } : result);
+    // Volta ao lobby com os mesmos assentos; fichas ficam visíveis até a revanche
+    returnToLobby(false);
+    room.meta.awaitingRematch = true;
+    rematchVotes.clear();
+    setPhase('match_finished');
+    hooks.log(`Match encerrado. Revanche? Fichas ${room.meta.rematchChips === 'carry' ? 'mantidas' : 'zeradas'}.`);
+    checkRematchVotes();
+  }
+
+  // Partida interrompida antes do fim (abort, expulsão, mesa sem adversário), em qualquer fase do match
+  function interruptMatch(resetChips: boolean) {
+    if (allowed('abort')) {
+      gameMetrics.gamesFinished.inc({ reason: 'aborted' });
+      log.info('Partida interrompida', { matchNumber: room.meta.matchNumber, phase });
+    }
+    returnToLobby(resetChips);
+  }
+
+  // Volta ao lobby com os mesmos assentos; fichas mantidas ou zeradas
+  function returnToLobby(resetChips: boolean) {
+    cancelTrickResolution?.();
+    cancelTrickResolution = undefined;
+    // Mão interrompida não entra no histórico exportável
+    if (currentHistory()) histories.pop();
+
+    const lobby = createGame(room.meta.mode, room.meta.teamMode);
+    lobby.players = room.game.players.map(p => ({
+      ...p,
+      hand: [],
+      score: 0,
+      capturedCards: [],
+      chips: resetChips ? 0 : p.chips ?? 0,
+      missedTurns: 0,
+      away: false,
+    }));
+    lobby.teamChips = resetChips ? undefined : room.game.teamChips;
+    room.game = lobby;
+    room.meta.isGameStarted = false;
+    room.meta.awaitingRematch = false;
+    room.meta.currentRound = 1;
+    rematchVotes.clear();
+    setPhase('lobby');
+    hooks.playersChanged();
+    stateChanged();
+  }
+
+  // Revanche começa quando todos os humanos conectados votaram; bots acompanham a mesa
+  function checkRematchVotes() {
+    if (phase !== 'match_finished') return;
+    const voters = room.game.players.filter(p => !p.isBot && p.connected !== false);
+    const votedIds = voters.filter(p => rematchVotes.has(p.id)).map(p => p.id);
+    hooks.broadcast('rematchVoteUpdate', { votes: votedIds, needed: voters.length });
+    if (voters.length === 0 || votedIds.length < voters.length) return;
+    const startError = getStartError();
+    if (startError) {
+      hooks.log(`Revanche aguardando: ${startError}.`);
+      return;
+    }
+    hooks.log('Todos aceitaram a revanche.');
+    startMatch();
+  }
+
+  return {
+    get phase() {
+      return phase;
+    },
+    histories,
+
+    start() {
+      // Depois de um match só a votação de revanche começa outro; o dono não passa por cima dos votos
+      if (phase === 'match_finished') return { ok: false, code: 'rematch_pending', message: 'A revanche começa quando todos aceitarem' };
+      if (!allowed('start')) return { ok: false, code: 'game_already_started', message: 'Jogo já iniciado' };
+      const startError = getStartError();
+      if (startError) return { ok: false, code: 'cannot_start', message: startError };
+      startMatch();
+      return { ok: true };
+    },
+
+    // Aplica uma jogada de um socket ou bot; em caso de recusa o estado não muda
+    play(playerId, card) {
+      if (!allowed('play')) {
+        return phase === 'trick_resolving'
+          ? { ok: false, code: 'trick_resolving', message: 'Aguarde a vaza ser recolhida' }
+          : { ok: false, code: 'game_not_started', message: 'O jogo não começou' };
+      }
+      return applyPlay(playerId, card, true);
+    },
+
+    abort(resetChips) {
+      if (!allowed('abort')) return { ok: false, code: 'game_not_started', message: 'Nenhuma partida em andamento' };
+      interruptMatch(resetChips);
+      return { ok: true };
+    },
+
+    returnToLobby: interruptMatch,
+
+    // Expulsão tira o jogador da mesa. Com partida em andamento ela é interrompida (fichas mantidas):
+    // as cartas dele não podem sumir no meio da mão, e passar o assento a um bot é o que acontece numa queda.
+    kick(playerId) {
+      if (!room.game.players.some(p => p.id === playerId)) return { ok: false, code: 'invalid_player', message: 'Jogador inválido' };
+      const interrupted = room.meta.isGameStarted;
+      if (interrupted) interruptMatch(false);
+      room.game = { ...room.game, players: room.game.players.filter(p => p.id !== playerId) };
+      rematchVotes.delete(playerId);
+      if (interrupted) {
+        hooks.broadcast('matchAborted', { resetChips: false });
+        hooks.log('Partida interrompida pela expulsão. Fichas mantidas.');
+      }
+      hooks.playersChanged();
+      stateChanged();
+      checkRematchVotes();
+      return { ok: true };
+    },
+
+    // accept false retira o voto
+    voteRematch(playerId, accept) {
+      if (!allowed('voteRematch')) return { ok: false, code: 'no_rematch_vote', message: 'Nenhuma revanche em votação' };
+      if (accept) {
+        rematchVotes.add(playerId);
+      } else {
+        rematchVotes.delete(playerId);
+      }
+      checkRematchVotes();
+      return { ok: true };
+    },
+
+    // Jogador saiu da sala: o voto dele some e a votação pode fechar sem ele
+    dropRematchVote(playerId) {
+      rematchVotes.delete(playerId);
+      checkRematchVotes();
+    },
+
+    // Maioria dos humanos conectados, sem contar o alvo; mudar a ação recomeça a votação
+    voteAway(voterId, targetPlayerId, action) {
+      const target = room.game.players.find(p => p.id === targetPlayerId);
+      if (!target || !target.away || target.isBot || targetPlayerId === voterId) {
+        return { ok: false, code: 'not_away', message: 'Jogador não está ausente' };
+      }
+      let votes = awayVotes.get(targetPlayerId);
+      if (!votes || votes.action !== action) {
+        votes = { action, voters: new Set<string>() };
+        awayVotes.set(targetPlayerId, votes);
+      }
+      votes.voters.add(voterId);
+
+      const eligible = room.game.players.filter(p => !p.isBot && p.id !== targetPlayerId && p.connected !== false).length;
+      const needed = Math.floor(eligible / 2) + 1;
+      hooks.broadcast('awayVoteUpdate', { targetPlayerId, action, votes: votes.voters.size, needed });
+      if (votes.voters.size < needed) return { ok: true };
+
+      awayVotes.delete(targetPlayerId);
+      hooks.log(action === 'kick' ? `${target.nickname} foi expulso pela mesa.` : `A mesa substituiu ${target.nickname} por um bot.`);
+      return { ok: true, decided: action };
+    },
+
+    // Bot assume o assento mantendo mão, pontos e fichas; avisar a mesa fica com quem chamou
+    replaceWithBot(playerId) {
+      if (!room.game.players.some(p => p.id === playerId)) return;
+      room.game.players = room.game.players.map(p => p.id === playerId
+        ? { ...p, connected: true, isBot: true, botDifficulty: 'smart', accountId: undefined, missedTurns: 0, away: false }
+        : p);
+      awayVotes.delete(playerId);
+      syncTurnTimer();
+    },
+
+    // Sala restaurada: retoma a vaza que estava esperando ser recolhida e o prazo da vez
+    resume() {
+      if (phase === 'trick_resolving') scheduleTrickResolution();
+      syncTurnTimer();
+    },
+
+    dispose() {
+      cancelTrickResolution?.();
+      cancelTrickResolution = undefined;
+      clearTurnTimer();
+    },
+  };
+}
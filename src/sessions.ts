@@ -0,0 +1,50 @@
+import { randomBytes } from "crypto";
+
+export interface PlayerSession {
+  token: string;
+  roomId: string;
+  playerId: string;
+}
+
+// Sessões por token; permitem que um novo socket retome o mesmo assento
+const sessionsByToken = new Map<string, PlayerSession>();
+const tokenByPlayerId = new Map<string, string>();
+
+export function generatePlayerId(): string {
+  return 'p_' + randomBytes(8).toString('hex');
+}
+
+export function createSession(roomId: string, playerId: string): PlayerSession {
+  const previous = tokenByPlayerId.get(playerId);
+  if (previous) sessionsByToken.delete(previous);
+  const session: PlayerSession = { token: `${roomId}.${randomBytes(24).toString('hex')}`, roomId, playerId };
+  sessionsByToken.set(session.token, session);
+  tokenByPlayerId.set(playerId, session.token);
+  return session;
+}
+
+export function getSession(token: string): PlayerSession | undefined {
+  return sessionsByToken.get(token);
+}
+
+// Sala embutida no token, para levar a reconexão à instância dona sem consultar as outras
+export function sessionRoomId(token: string): string | undefined {
+  const separator = token.indexOf('.');
+  return separator > 0 ? token.slice(0, separator) : undefined;
+}
+
+export function deleteSessionForPlayer(playerId: string) {
+  const token = tokenByPlayerId.get(playerId);
+  if (token) sessionsByToken.delete(token);
+  tokenByPlayerId.delete(playerId);
+}
+
+export function listSessionsForRoom(roomId: string): PlayerSession[] {
+  return Array.from(sessionsByToken.values()).filter(s => s.roomId === roomId);
+}
+
+// Recoloca uma sessão salva (ex.: ao carregar salas do armazenamento na inicialização)
+export function restoreSession(session: PlayerSession) {
+  sessionsByToken.set(session.token, session);
+  tokenByPlayerId.set(session.playerId, session.token);
+}
@@ -0,0 +1,183 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "./logger";
+import { PlayerSession } from "./sessions";
+import { Account, GameState, Ladder, RatedMatch, HandHistory, RoomLogEntry, RoomMeta } from "./types";
+
+const log = logger.child({ scope: 'storage' });
+
+// Tudo o que é preciso para recolocar uma sala no ar depois de um restart
+export interface StoredRoom {
+  meta: RoomMeta;
+  game: GameState;
+  logs: RoomLogEntry[];
+  sessions: PlayerSession[];
+  histories: HandHistory[];
+  savedAt: number;
+}
+
+export interface RoomStore {
+  save(room: StoredRoom): Promise<void>;
+  delete(roomId: string): Promise<void>;
+  loadAll(): Promise<StoredRoom[]>;
+}
+
+export function createMemoryRoomStore(): RoomStore {
+  const data = new Map<string, string>();
+  return {
+    async save(room) {
+      data.set(room.meta.id, JSON.stringify(room));
+    },
+    async delete(roomId) {
+      data.delete(roomId);
+    },
+    async loadAll() {
+      return Array.from(data.values()).map(raw => JSON.parse(raw) as StoredRoom);
+    },
+  };
+}
+
+// Um arquivo JSON por chave; escrita atômica (arquivo temporário + rename) e serializada por chave
+function createJsonFileStore<T>(dir: string, label: string) {
+  const pending = new Map<string, Promise<void>>();
+  const fileFor = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`);
+
+  const enqueue = (key: string, task: () => Promise<void>): Promise<void> => {
+    const previous = pending.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    pending.set(key, next);
+    next.finally(() => {
+      if (pending.get(key) === next) pending.delete(key);
+    }).catch(() => undefined);
+    return next;
+  };
+
+  return {
+    save(key: string, value: T) {
+      return enqueue(key, async () => {
+        await fs.mkdir(dir, { recursive: true });
+        const file = fileFor(key);
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(value));
+        await fs.rename(tmp, file);
+      });
+    },
+    delete(key: string) {
+      return enqueue(key, async () => {
+        await fs.rm(fileFor(key), { force: true });
+      });
+    },
+    async loadAll(): Promise<T[]> {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch {
+        return [];
+      }
+      const stored: T[] = [];
+      for (const file of files.filter(f => f.endsWith('.json'))) {
+        try {
+          stored.push(JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')) as T);
+        } catch (e) {
+          log.error('Arquivo ilegível ignorado', { label, file, error: e });
+        }
+      }
+      return stored;
+    },
+  };
+}
+
+export function createFileRoomStore(dir: string): RoomStore {
+  const files = createJsonFileStore<StoredRoom>(dir, 'sala');
+  return {
+    save: room => files.save(room.meta.id, room),
+    delete: roomId => files.delete(roomId),
+    loadAll: () => files.loadAll(),
+  };
+}
+
+// ROOM_STORE=file grava em ROOM_STORE_DIR (padrão ./data/rooms); qualquer outro valor usa memória
+export function createRoomStore(): RoomStore {
+  if (process.env.ROOM_STORE === 'file') {
+    return createFileRoomStore(process.env.ROOM_STORE_DIR || path.join(process.cwd(), 'data', 'rooms'));
+  }
+  return createMemoryRoomStore();
+}
+
+export interface AccountStore {
+  save(account: Account): Promise<void>;
+  loadAll(): Promise<Account[]>;
+}
+
+export function createMemoryAccountStore(): AccountStore {
+  const data = new Map<string, string>();
+  return {
+    async save(account) {
+      data.set(account.id, JSON.stringify(account));
+    },
+    async loadAll() {
+      return Array.from(data.values()).map(raw => JSON.parse(raw) as Account);
+    },
+  };
+}
+
+// Um arquivo JSON por conta, no mesmo esquema das salas
+export function createFileAccountStore(dir: string): AccountStore {
+  const files = createJsonFileStore<Account>(dir, 'conta');
+  return {
+    save: account => files.save(account.id, account),
+    loadAll: () => files.loadAll(),
+  };
+}
+
+// ACCOUNT_STORE=file grava em ACCOUNT_STORE_DIR (padrão ./data/accounts); qualquer outro valor usa memória
+export function createAccountStore(): AccountStore {
+  if (process.env.ACCOUNT_STORE === 'file') {
+    return createFileAccountStore(process.env.ACCOUNT_STORE_DIR || path.join(process.cwd(), 'data', 'accounts'));
+  }
+  return createMemoryAccountStore();
+}
+
+export interface RatingStore {
+  saveLadder(ladder: Ladder): Promise<void>;
+  saveMatch(match: RatedMatch): Promise<void>;
+  loadAll(): Promise<{ ladders: Ladder[]; matches: RatedMatch[] }>;
+}
+
+export function createMemoryRatingStore(): RatingStore {
+  const ladders = new Map<string, string>();
+  const matches = new Map<string, string>();
+  return {
+    async saveLadder(ladder) {
+      ladders.set(ladder.key, JSON.stringify(ladder));
+    },
+    async saveMatch(match) {
+      matches.set(match.id, JSON.stringify(match));
+    },
+    async loadAll() {
+      return {
+        ladders: Array.from(ladders.values()).map(raw => JSON.parse(raw) as Ladder),
+        matches: Array.from(matches.values()).map(raw => JSON.parse(raw) as RatedMatch),
+      };
+    },
+  };
+}
+
+// Um arquivo por escada e um por match avaliado (o histórico nunca é reescrito)
+export function createFileRatingStore(dir: string): RatingStore {
+  const ladders = createJsonFileStore<Ladder>(path.join(dir, 'ladders'), 'escada');
+  const matches = createJsonFileStore<RatedMatch>(path.join(dir, 'matches'), 'match');
+  return {
+    saveLadder: ladder => ladders.save(ladder.key, ladder),
+    saveMatch: match => matches.save(match.id, match),
+    loadAll: async () => ({ ladders: await ladders.loadAll(), matches: await matches.loadAll() }),
+  };
+}
+
+// RATING_STORE=file grava em RATING_STORE_DIR (padrão ./data/ratings); qualquer outro valor usa memória
+export function createRatingStore(): RatingStore {
+  if (process.env.RATING_STORE === 'file') {
+    return createFileRatingStore(process.env.RATING_STORE_DIR || path.join(process.cwd(), 'data', 'ratings'));
+  }
+  return createMemoryRatingStore();
+}
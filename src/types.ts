@@ -1,12 +1,48 @@
+// 'ten_cards': 10 cartas por jogador, sem compra; 'classic': 3 cartas, trunfo virado e compra após cada vaza
+export type GameMode = 'ten_cards' | 'classic';
+
+// 'off': sem espectadores; 'public': visão pública ao vivo; 'delayed_full': com atraso, e as mãos só depois que a mão termina
+export type SpectatorMode = 'off' | 'public' | 'delayed_full';
+
+// 'random': qualquer carta válida; 'smart': heurística de pontos, trunfo e casamento 7/A
+export type BotDifficulty = 'random' | 'smart';
+
 export interface Player {
-  id: string;
+  id: string; // id estável do jogador (não é o socket id)
   nickname: string;
   hand: string[];
   score: number;
   capturedCards: string[]; // Cartas capturadas pelo jogador
   chips?: number; // Fichas acumuladas ao longo do match
+  connected?: boolean; // false durante o período de tolerância de reconexão
+  team?: number; // 0 ou 1 no modo em duplas (assentos opostos são parceiros)
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
+  missedTurns?: number; // Tempos esgotados seguidos
+  away?: boolean; // Marcado após vários tempos esgotados; a mesa pode votar para substituir ou expulsar
+  matchPoints?: number; // Pontos de carta somados nas mãos do match
+  handsWon?: number; // Mãos vencidas no match (maior pontuação, sem empate)
+  accountId?: string; // Conta (convidado ou registrada) de quem sentou; bots não têm
+  avatar?: string;
 }
 
+// Motivos de recusa de uma jogada
+export type PlayRejectionCode =
+  | 'game_not_started'
+  | 'trick_resolving'
+  | 'player_not_found'
+  | 'not_your_turn'
+  | 'card_not_in_hand'
+  | 'must_lead_trump'
+  | 'must_follow_suit'
+  | 'invalid_card'
+  | 'room_not_found'
+  | 'internal_error';
+
+export type PlayValidation =
+  | { ok: true }
+  | { ok: false; code: PlayRejectionCode; message: string };
+
 export interface TablePlay {
   playerId: string;
   nickname: string;
@@ -14,6 +50,9 @@ export interface TablePlay {
 }
 
 export interface GameState {
+  mode: GameMode;
+  teamMode: boolean;
+  teamChips?: number[]; // Fichas por dupla ao longo do match (modo em duplas)
   players: Player[];
   table: TablePlay[];
   turn: number;
@@ -21,24 +60,289 @@ export interface GameState {
   deck: string[];
   roundNumber: number;
   isGameStarted: boolean;
+  seed?: string; // Semente do embaralhamento; secreta até o fim da mão
+  seedHash?: string; // sha256 da semente, publicado no início da mão
+  turnDeadline?: number; // Epoch ms em que a vez atual expira (se a sala tiver tempo por jogada)
   // Histórico mínimo para regras de fichas na última vaza
   lastTrickWinnerId?: string;
   lastTrickCards?: TablePlay[];
-  // Sinalizadores para regras de fichas
-  playedTrumpAByPlayerId?: Record<string, boolean>;
-  capturedOppTrump7ByPlayerId?: Record<string, boolean>;
+  tricks?: TrickRecord[]; // Vazas já resolvidas na mão, usadas pelas regras de fichas
+}
+
+export interface TrickRecord {
+  winnerId: string;
+  cards: TablePlay[];
 }
 
+// Momento em que uma regra de fichas é avaliada
+export type ChipRulePhase = 'deal' | 'trick' | 'hand_end';
+
+// Regra ativa na sala, com o valor escolhido na criação
+export interface ChipRuleSetting {
+  code: string;
+  points: number;
+}
+
+export type ChipRulePreset = 'standard' | 'score_only' | 'house_bisca';
+
+// Ajustes por regra na criação da sala: ligar/desligar e trocar o valor
+export type ChipRuleOverrides = Record<string, { enabled?: boolean; points?: number }>;
+
 export interface RoomMeta {
   id: string;
   capacity: number; // 2 to 4
-  ownerId: string; // socket id
+  ownerId: string; // player id
   isGameStarted: boolean;
+  mode: GameMode;
+  teamMode?: boolean; // Duplas (só com capacidade 4)
+  turnTimeoutMs?: number; // Tempo por jogada; ausente = sem limite
+  spectatorMode?: SpectatorMode; // Padrão: 'public'
   totalRounds?: number; // Quantidade de rodadas do match
   currentRound?: number; // Rodada atual (1..totalRounds)
+  isPublic?: boolean; // Listada no lobby; padrão: privada
+  createdAt?: number;
+  mutedPlayerIds?: string[]; // Silenciados pelo dono; por id de jogador, vale após reconexão
+  rematchChips?: RematchChips; // Padrão: 'reset'
+  awaitingRematch?: boolean; // Match terminou e a mesa está votando a revanche
+  matchNumber?: number; // Matches já iniciados na sala (1, 2, ...)
+  chipRules?: ChipRuleSetting[]; // Regras de fichas ativas; ausente = padrão
+  winCondition?: WinCondition; // Ausente = { type: 'rounds' } com totalRounds
+  tieBreaker?: TieBreaker; // Padrão: 'card_points'
+  suddenDeath?: SuddenDeath; // Mão de desempate em andamento
+}
+
+// Lados empatados (jogadores pelo assento, ou duplas) e a condição que encerrou o match
+export interface SuddenDeath {
+  sides: number[];
+  condition: MatchEndCondition;
+}
+
+// Fim do match: 'rounds' joga totalRounds mãos; 'chips' e 'points' terminam quando um lado chega ao alvo;
+// 'best_of' termina quando um lado já venceu a maioria de `target` mãos
+export type WinConditionType = 'rounds' | 'chips' | 'points' | 'best_of';
+
+export interface WinCondition {
+  type: WinConditionType;
+  target?: number; // Ignorado em 'rounds'
+}
+
+// Desempate no fim do match: pontos de carta do match, uma mão extra entre os empatados, ou vitória dividida
+export type TieBreaker = 'card_points' | 'sudden_death' | 'shared';
+
+// O que encerrou o match; 'hand_limit' é o teto de segurança de mãos
+export type MatchEndCondition = 'rounds' | 'chips_target' | 'points_target' | 'best_of' | 'hand_limit';
+
+// Fichas na revanche: zeradas ou mantidas do match anterior
+export type RematchChips = 'reset' | 'carry';
+
+export interface CreateRoomOptions {
+  capacity?: number;
+  nickname?: string; // Pode faltar com accountToken: vale o nome do perfil
+  accountToken?: string;
+  totalRounds?: number;
+  mode?: GameMode;
+  teamMode?: boolean;
+  turnTimeoutSeconds?: number;
+  spectatorMode?: SpectatorMode;
+  isPublic?: boolean;
+  rematchChips?: RematchChips;
+  chipRulePreset?: ChipRulePreset;
+  chipRules?: ChipRuleOverrides;
+  winCondition?: WinCondition;
+  tieBreaker?: TieBreaker;
+}
+
+export type LobbyRoomStatus = 'waiting' | 'full' | 'playing';
+
+// Entrada do lobby: só o que é público sobre a sala, sem mãos nem sessões
+export interface LobbyEntry {
+  roomId: string;
+  capacity: number;
+  seated: number;
+  nicknames: string[];
+  totalRounds: number;
+  currentRound: number;
+  rules: {
+    mode: GameMode;
+    teamMode: boolean;
+    turnTimeoutMs?: number;
+    spectatorMode: SpectatorMode;
+    winCondition: WinCondition;
+    tieBreaker: TieBreaker;
+  };
+  status: LobbyRoomStatus;
+  createdAt: number;
+}
+
+export interface ChipAward {
+  playerId: string;
+  delta: number;
+  reasons: string[];
+}
+
+export interface TeamChipAward {
+  team: number;
+  delta: number;
+  reasons: string[];
+}
+
+export interface TeamStanding {
+  team: number;
+  playerIds: string[];
+  nicknames: string[];
+  score: number;
+  capturedCount: number;
+  chips: number;
+}
+
+// Eventos estruturados de uma mão, na ordem em que aconteceram
+export type HandEvent =
+  | { type: 'deal'; ts: number; hands: { playerId: string; seat: number; cards: string[] }[]; deckCount: number }
+  | { type: 'trump'; ts: number; trumpCard: string }
+  | { type: 'play'; ts: number; playerId: string; seat: number; card: string; roundNumber: number }
+  | { type: 'trick'; ts: number; winnerId: string; winnerSeat: number; cards: TablePlay[]; points: number; roundNumber: number }
+  | { type: 'chips'; ts: number; phase: ChipRulePhase; awards: ChipAward[]; teamAwards?: TeamChipAward[] };
+
+export interface HandHistory {
+  roomId: string;
+  handNumber: number; // Rodada do match (RoomMeta.currentRound)
+  matchNumber?: number; // RoomMeta.matchNumber; distingue mãos de mesmo número em revanches
+  startedAt: number;
+  finishedAt?: number;
+  mode: GameMode;
+  teamMode: boolean;
+  seed: string;
+  seedHash: string;
+  // Jogadores na ordem dos assentos, com as fichas que tinham antes da distribuição
+  players: { id: string; nickname: string; seat: number; chips: number }[];
+  teamChips?: number[];
+  events: HandEvent[];
+}
+
+// Estatísticas acumuladas da conta em todas as salas
+export interface ProfileStats {
+  handsPlayed: number;
+  handsWon: number;
+  chipsEarned: number;
+  chipsByReason: Record<string, number>; // Fichas por código de motivo (ChipAward.reasons)
+}
+
+// Conta de convidado (só token) ou registrada (username e senha)
+export interface Account {
+  id: string;
+  token: string; // Token de acesso; o cliente guarda e envia ao sentar
+  username?: string;
+  passwordHash?: string;
+  displayName: string;
+  avatar: string;
+  createdAt: number;
+  upgradedAt?: number;
+  stats: ProfileStats;
+}
+
+// Perfil como aparece para os outros (sem token nem senha)
+export interface PublicProfile {
+  id: string;
+  displayName: string;
+  avatar: string;
+  registered: boolean;
+  createdAt: number;
+  stats: ProfileStats;
+}
+
+// Rating de uma conta registrada numa escada (quantidade de jogadores + modo)
+export interface Rating {
+  accountId: string;
+  rating: number;
+  matches: number;
+  wins: number;
+  updatedAt: number;
+}
+
+export interface Ladder {
+  key: string; // ex.: '2p_ten_cards', '4p_classic_teams'
+  ratings: Record<string, Rating>;
+}
+
+// Auditoria: variação de rating de cada conta num match
+export interface RatingChange {
+  accountId: string;
+  displayName: string;
+  place: number; // 1 = melhor colocação; empatados dividem a posição
+  chips: number;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface RatedMatch {
+  id: string;
+  ladder: string;
+  roomId: string;
+  matchNumber: number;
+  finishedAt: number;
+  changes: RatingChange[];
+}
+
+export interface Spectator {
+  id: string;
+  nickname: string;
+  joinedAt: number;
+}
+
+export interface RoomLogEntry {
+  ts: number;
+  text: string;
+  type?: string; // 'system' (padrão), 'chat' ou 'reaction'
+  playerId?: string; // Autor, em mensagens de chat e reações
+  nickname?: string;
 }
 
 export interface Room {
   meta: RoomMeta;
   game: GameState;
 }
+
+// Visão pública de um jogador: sem cartas da mão nem cartas capturadas
+export interface PublicPlayer {
+  id: string;
+  nickname: string;
+  handCount: number;
+  score: number;
+  capturedCount: number;
+  chips?: number;
+  connected: boolean;
+  team?: number;
+  isBot?: boolean;
+  away?: boolean;
+  accountId?: string;
+  avatar?: string;
+}
+
+// Jogador como aparece na visão de um observador; mão e capturadas só para o próprio
+export interface PlayerView extends PublicPlayer {
+  hand?: string[];
+  capturedCards?: string[];
+}
+
+// Estado do jogo projetado para um observador específico (nunca contém o baralho)
+export interface GameView {
+  viewerId: string | null;
+  mode: GameMode;
+  teamMode: boolean;
+  teamChips?: number[];
+  players: PlayerView[];
+  table: TablePlay[];
+  turn: number;
+  trumpCard: string;
+  deckCount: number;
+  roundNumber: number;
+  isGameStarted: boolean;
+  seedHash?: string;
+  turnDeadline?: number;
+  legalMoves: string[]; // Cartas que o observador pode jogar agora (vazio fora da vez dele)
+  lastTrickWinnerId?: string;
+  lastTrickCards?: TablePlay[];
+  playedTrumpAByPlayerId?: Record<string, boolean>;
+  capturedOppTrump7ByPlayerId?: Record<string, boolean>;
+}
@@ -0,0 +1,86 @@
+// Validação de payloads em tempo de execução; cada schema devolve o valor já tipado (e limpo) ou o erro
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+export type Schema<T> = (value: unknown, path: string) => ParseResult<T>;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Chaves cujo schema aceita undefined viram opcionais no tipo do objeto
+type ObjectOf<S extends Record<string, Schema<unknown>>> =
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> };
+
+// Chaves que mexeriam no protótipo de quem receber o objeto
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+const fail = (path: string, message: string): { ok: false; error: string } => ({ ok: false, error: `${path}: ${message}` });
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp; trim?: boolean } = {}): Schema<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') return fail(path, 'deve ser texto');
+    const text = options.trim ? value.trim() : value;
+    if (options.min !== undefined && text.length < options.min) return fail(path, `mínimo de ${options.min} caractere(s)`);
+    if (options.max !== undefined && text.length > options.max) return fail(path, `máximo de ${options.max} caracteres`);
+    if (options.pattern && !options.pattern.test(text)) return fail(path, 'formato inválido');
+    return { ok: true, value: text };
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'deve ser número');
+    if (options.integer && !Number.isInteger(value)) return fail(path, 'deve ser inteiro');
+    if (options.min !== undefined && value < options.min) return fail(path, `mínimo ${options.min}`);
+    if (options.max !== undefined && value > options.max) return fail(path, `máximo ${options.max}`);
+    return { ok: true, value };
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path) => typeof value === 'boolean' ? { ok: true, value } : fail(path, 'deve ser true ou false');
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path) => (values as readonly unknown[]).includes(value)
+    ? { ok: true, value: value as T }
+    : fail(path, `deve ser um de: ${values.join(', ')}`);
+}
+
+// Ausente ou null vira undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => value === undefined || value === null ? { ok: true, value: undefined } : schema(value, path);
+}
+
+// Objeto estrito: chaves desconhecidas são recusadas
+export function object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<ObjectOf<S>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'deve ser objeto');
+    const input = value as Record<string, unknown>;
+    const unknownKey = Object.keys(input).find(key => !hasOwn(shape, key));
+    if (unknownKey) return fail(`${path}.${unknownKey}`, 'campo desconhecido');
+    const output: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key](input[key], `${path}.${key}`);
+      if (!parsed.ok) return parsed;
+      if (parsed.value !== undefined) output[key] = parsed.value;
+    }
+    return { ok: true, value: output as ObjectOf<S> };
+  };
+}
+
+export function record<T>(valueSchema: Schema<T>, options: { maxKeys?: number } = {}): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'deve ser objeto');
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (options.maxKeys !== undefined && entries.length > options.maxKeys) return fail(path, `máximo de ${options.maxKeys} chaves`);
+    const output: Record<string, T> = {};
+    for (const [key, item] of entries) {
+      if (FORBIDDEN_KEYS.has(key)) return fail(`${path}.${key}`, 'chave não permitida');
+      const parsed = valueSchema(item, `${path}.${key}`);
+      if (!parsed.ok) return parsed;
+      output[key] = parsed.value;
+    }
+    return { ok: true, value: output };
+  };
+}
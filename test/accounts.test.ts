@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createGuestAccount, getAccountByToken, loginAccount, recordChipsEarned, recordHandPlayed, toPublicProfile, updateProfile, upgradeAccount } from "../src/accounts";
+
+// Usernames únicos por teste: as contas ficam em mapas do módulo
+let counter = 0;
+const uniqueName = () => `jogador_${++counter}`;
+
+describe('contas', () => {
+  test('convidado vira conta registrada mantendo id e estatísticas, com token novo', async () => {
+    const guest = createGuestAccount('  Ana  ');
+    const guestToken = guest.token;
+    assert.equal(guest.displayName, 'Ana');
+    recordHandPlayed(guest.id, true);
+
+    const name = uniqueName();
+    const result = await upgradeAccount(guestToken, `  ${name.toUpperCase()} `, 'segredo1');
+    assert.ok(result.ok);
+    assert.equal(result.account.id, guest.id);
+    // O token de convidado deixa de valer; só o novo acha a conta
+    assert.notEqual(result.account.token, guestToken);
+    assert.equal(getAccountByToken(guestToken), undefined);
+    assert.equal(getAccountByToken(result.account.token), result.account);
+    assert.equal(result.account.username, name);
+    assert.equal(result.account.stats.handsWon, 1);
+    assert.ok(result.account.passwordHash?.startsWith('scrypt$'));
+    assert.ok(!result.account.passwordHash?.includes('segredo1'));
+    assert.equal(toPublicProfile(result.account).registered, true);
+    assert.equal('passwordHash' in toPublicProfile(result.account), false);
+
+    const again = await upgradeAccount(result.account.token, uniqueName(), 'segredo1');
+    assert.equal(again.ok ? undefined : again.code, 'already_registered');
+  });
+
+  test('upgrade rejeita token desconhecido, username inválido e senha curta', async () => {
+    const guest = createGuestAccount();
+    const codes = await Promise.all([
+      upgradeAccount('nao-existe', uniqueName(), 'segredo1'),
+      upgradeAccount(guest.token, 'ab', 'segredo1'),
+      upgradeAccount(guest.token, 'com espaço', 'segredo1'),
+      upgradeAccount(guest.token, uniqueName(), '12345'),
+      upgradeAccount(guest.token, uniqueName(), 123456),
+    ]).then(results => results.map(r => (r.ok ? 'ok' : r.code)));
+    assert.deepEqual(codes, ['invalid_token', 'invalid_username', 'invalid_username', 'weak_password', 'weak_password']);
+    assert.equal(getAccountByToken(guest.token)?.username, undefined);
+  });
+
+  test('username duplicado é recusado, inclusive em pedidos simultâneos', async () => {
+    const name = uniqueName();
+    const first = await upgradeAccount(createGuestAccount().token, name, 'segredo1');
+    assert.ok(first.ok);
+    const taken = await upgradeAccount(createGuestAccount().token, name.toUpperCase(), 'segredo1');
+    assert.equal(taken.ok ? undefined : taken.code, 'username_taken');
+
+    const racing = uniqueName();
+    const results = await Promise.all([
+      upgradeAccount(createGuestAccount().token, racing, 'segredo1'),
+      upgradeAccount(createGuestAccount().token, racing, 'segredo2'),
+    ]);
+    assert.deepEqual(results.map(r => (r.ok ? 'ok' : r.code)), ['ok', 'username_taken']);
+  });
+
+  test('login confere a senha e devolve a mesma conta com token novo', async () => {
+    const guest = createGuestAccount();
+    const name = uniqueName();
+    const upgraded = await upgradeAccount(guest.token, name, 'segredo1');
+    assert.ok(upgraded.ok);
+    const previous = upgraded.account.token;
+
+    const ok = await loginAccount(name.toUpperCase(), 'segredo1');
+    assert.ok(ok.ok);
+    assert.equal(ok.account.id, guest.id);
+    assert.notEqual(ok.account.token, previous);
+    assert.equal(getAccountByToken(previous), undefined);
+    assert.equal(getAccountByToken(ok.account.token)?.id, guest.id);
+    for (const [username, password] of [[name, 'errada1'], [uniqueName(), 'segredo1'], [name, undefined]]) {
+      const failed = await loginAccount(username, password);
+      assert.equal(failed.ok ? undefined : failed.code, 'invalid_credentials');
+    }
+    // Convidado sem senha não entra por username algum
+    assert.equal((await loginAccount(guest.id, '')).ok, false);
+    // Tentativas recusadas não trocam o token
+    assert.equal(getAccountByToken(ok.account.token)?.id, guest.id);
+  });
+
+  test('estatísticas somam mãos e fichas por motivo', () => {
+    const account = createGuestAccount();
+    recordHandPlayed(account.id, true);
+    recordHandPlayed(account.id, false);
+    recordChipsEarned(account.id, { winner: 2, seven_of_trump: 1 });
+    recordChipsEarned(account.id, { winner: 1 });
+    recordHandPlayed('nao-existe', true);
+
+    assert.deepEqual(account.stats, { handsPlayed: 2, handsWon: 1, chipsEarned: 4, chipsByReason: { winner: 3, seven_of_trump: 1 } });
+  });
+
+  test('perfil aceita nome e avatar válidos e recusa o resto', () => {
+    const account = createGuestAccount();
+    assert.ok(updateProfile(account, { displayName: 'Bia', avatar: 'owl' }).ok);
+    assert.equal(updateProfile(account, { avatar: 'dragão' }).ok, false);
+    assert.equal(updateProfile(account, { displayName: '   ' }).ok, false);
+    assert.equal(updateProfile(account, { displayName: 'x'.repeat(25) }).ok, false);
+    assert.deepEqual([account.displayName, account.avatar], ['Bia', 'owl']);
+  });
+});
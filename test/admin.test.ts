@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import express from "express";
+import { Server } from "http";
+import { AdminOperations, AdminRoomSummary, createAdminRouter } from "../src/admin";
+
+const summary: AdminRoomSummary = {
+  roomId: 'sala1', phase: 'playing', mode: 'ten_cards', teamMode: false, isPublic: true, capacity: 2,
+  players: 2, connectedPlayers: 1, bots: 1, spectators: 0, ownerId: 'p0', matchNumber: 1, currentRound: 1,
+};
+
+// Operações falsas que registram as chamadas: sala1 existe, s1 é o único socket conectado
+function fakeOperations() {
+  const calls: string[] = [];
+  let draining = false;
+  const operations: AdminOperations = {
+    instanceId: 'A',
+    listRooms: () => [summary],
+    inspectRoom: roomId => roomId === 'sala1' ? { summary, meta: {} as never, game: {} as never, players: [], spectators: [], logs: [], handHistories: 0 } : undefined,
+    roomOwner: async roomId => roomId === 'sala2' ? 'B' : undefined,
+    closeRoom: (roomId, reason) => {
+      calls.push(`close ${roomId} ${reason}`);
+      return roomId === 'sala1';
+    },
+    kickSocket: async (socketId, reason) => {
+      calls.push(`kick ${socketId} ${reason}`);
+      return socketId === 's1';
+    },
+    broadcastNotice: message => calls.push(`notice ${message}`),
+    isDraining: () => draining,
+    setDraining: enabled => {
+      draining = enabled;
+    },
+  };
+  return { operations, calls };
+}
+
+async function listen(operations: AdminOperations, token: string | undefined) {
+  const app = express();
+  app.use(express.json());
+  app.use('/admin', createAdminRouter(operations, token));
+  const server = await new Promise<Server>(resolve => {
+    const s = app.listen(0, () => resolve(s));
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin`;
+  const request = async (method: string, path: string, body?: unknown, auth: string | null = 'Bearer segredo') => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (auth) headers.Authorization = auth;
+    const res = await fetch(base + path, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+    return { status: res.status, body: await res.json() as Record<string, unknown> };
+  };
+  return { server, request };
+}
+
+describe('API de administração', () => {
+  const { operations, calls } = fakeOperations();
+  let api: Awaited<ReturnType<typeof listen>>;
+  before(async () => {
+    api = await listen(operations, 'segredo');
+  });
+  after(() => api.server.close());
+
+  test('sem o token certo nada passa', async () => {
+    assert.equal((await api.request('GET', '/rooms', undefined, null)).status, 401);
+    assert.equal((await api.request('GET', '/rooms', undefined, 'Bearer errado')).status, 401);
+    assert.equal((await api.request('POST', '/drain', { enabled: true }, 'segredo')).status, 401);
+    assert.equal(operations.isDraining(), false);
+  });
+
+  test('lista e inspeciona salas; sala de outra instância indica a dona', async () => {
+    const list = await api.request('GET', '/rooms');
+    assert.equal(list.status, 200);
+    assert.deepEqual(list.body, { instanceId: 'A', draining: false, rooms: [summary] });
+
+    const detail = await api.request('GET', '/rooms/sala1');
+    assert.equal(detail.status, 200);
+    assert.deepEqual(detail.body.summary, summary);
+
+    const elsewhere = await api.request('GET', '/rooms/sala2');
+    assert.equal(elsewhere.status, 404);
+    assert.equal(elsewhere.body.ownerInstanceId, 'B');
+  });
+
+  test('encerra sala e derruba socket com o motivo informado ou o padrão', async () => {
+    assert.equal((await api.request('POST', '/rooms/sala1/close', { reason: ' Trapaça ' })).status, 200);
+    assert.equal((await api.request('POST', '/rooms/nada/close', {})).status, 404);
+    assert.equal((await api.request('POST', '/sockets/s1/kick', {})).status, 200);
+    assert.equal((await api.request('POST', '/sockets/s9/kick', { reason: 'x' })).status, 404);
+    assert.deepEqual(calls.splice(0), [
+      'close sala1 Trapaça',
+      'close nada Sala encerrada pela administração',
+      'kick s1 Desconectado pela administração',
+      'kick s9 x',
+    ]);
+  });
+
+  test('aviso exige mensagem; drenagem liga e desliga', async () => {
+    assert.equal((await api.request('POST', '/notice', { message: '   ' })).status, 400);
+    assert.equal((await api.request('POST', '/notice', { message: 'x'.repeat(501) })).status, 400);
+    assert.equal((await api.request('POST', '/notice', { message: 'Reinício em 5 minutos' })).status, 200);
+    assert.deepEqual(calls.splice(0), ['notice Reinício em 5 minutos']);
+
+    assert.equal((await api.request('POST', '/drain', { enabled: 'sim' })).status, 400);
+    assert.deepEqual((await api.request('POST', '/drain', { enabled: true })).body, { instanceId: 'A', draining: true });
+    assert.deepEqual((await api.request('GET', '/drain')).body, { instanceId: 'A', draining: true });
+    assert.equal((await api.request('POST', '/drain', { enabled: false })).body.draining, false);
+  });
+});
+
+test('sem ADMIN_TOKEN a API fica desligada', async () => {
+  const { server, request } = await listen(fakeOperations().operations, undefined);
+  try {
+    const res = await request('GET', '/rooms');
+    assert.equal(res.status, 503);
+    assert.equal(res.body.code, 'admin_disabled');
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { chooseBotCard } from "../src/bots";
+import { createGame, getLegalCards, isHandOver, playCard, resolveTrick, startGame } from "../src/gameLogic";
+import { BotDifficulty, GameMode, GameState } from "../src/types";
+
+const DIFFICULTIES: BotDifficulty[] = ['random', 'smart'];
+
+// Mesa montada à mão; as cartas de `table` são jogadas a partir do assento 0 e a vez fica com o seguinte
+function tableGame(hands: string[][], trumpCard: string, table: string[] = [], options: { roundNumber?: number; teamMode?: boolean; captured?: string[] } = {}): GameState {
+  let game: GameState = {
+    ...createGame('ten_cards', options.teamMode),
+    players: hands.map((hand, seat) => ({
+      id: `p${seat}`, nickname: `P${seat}`, hand, score: 0, capturedCards: seat === 0 ? options.captured ?? [] : [], chips: 0,
+      team: options.teamMode ? seat % 2 : undefined,
+    })),
+    trumpCard,
+    turn: 0,
+    roundNumber: options.roundNumber ?? 2,
+    isGameStarted: true,
+  };
+  for (const card of table) {
+    const next = playCard(game, game.players[game.turn].id, card);
+    assert.notEqual(next, game, `${card} deveria ser jogável`);
+    game = next;
+  }
+  return game;
+}
+
+// Quem tem a vez
+const current = (game: GameState) => game.players[game.turn].id;
+
+describe('bots: só cartas legais', () => {
+  test('seguir o naipe de saída quando tem', () => {
+    const game = tableGame([['5H'], ['3H', 'AS', '2C']], '4C', ['5H']);
+    for (const difficulty of DIFFICULTIES) {
+      for (let i = 0; i < 20; i++) assert.equal(chooseBotCard(game, 'p1', difficulty), '3H');
+    }
+  });
+
+  test('primeira carta da partida é de trunfo quando tem', () => {
+    const game = tableGame([['AS', '2C', '5H'], ['3H']], '4C', [], { roundNumber: 1 });
+    for (const difficulty of DIFFICULTIES) {
+      for (let i = 0; i < 20; i++) assert.equal(chooseBotCard(game, 'p0', difficulty), '2C');
+    }
+  });
+
+  test('fora da vez não há carta', () => {
+    const game = tableGame([['5H'], ['3H']], '4C');
+    assert.equal(chooseBotCard(game, 'p1', 'smart'), null);
+  });
+
+  test('mãos inteiras entre bots: toda escolha está em getLegalCards', () => {
+    for (const mode of ['ten_cards', 'classic'] as GameMode[]) {
+      for (const difficulty of DIFFICULTIES) {
+        for (let hand = 0; hand < 10; hand++) {
+          const lobby = createGame(mode, hand % 2 === 0);
+          lobby.players = ['A', 'B', 'C', 'D'].map((nickname, seat) => ({ id: `p${seat}`, nickname, hand: [], score: 0, capturedCards: [], chips: 0 }));
+          let game = startGame(lobby, `seed-${mode}-${difficulty}-${hand}`);
+          while (!isHandOver(game)) {
+            if (game.table.length === game.players.length) {
+              game = resolveTrick(game);
+              continue;
+            }
+            const playerId = current(game);
+            const card = chooseBotCard(game, playerId, difficulty);
+            assert.ok(card && getLegalCards(game, playerId).includes(card), `${difficulty} escolheu ${card}`);
+            game = playCard(game, playerId, card);
+          }
+        }
+      }
+    }
+  });
+});
+
+describe('bot smart', () => {
+  test('corta com trunfo a vaza cheia de pontos', () => {
+    const game = tableGame([['AH'], ['3S', '2C', '4D']], '5C', ['AH']);
+    assert.equal(chooseBotCard(game, 'p1', 'smart'), '2C');
+  });
+
+  test('não gasta trunfo em vaza sem pontos', () => {
+    const game = tableGame([['4H'], ['3S', '2C', '5D']], '6C', ['4H']);
+    assert.equal(chooseBotCard(game, 'p1', 'smart'), '3S');
+  });
+
+  test('casamento 7/A: não arrisca o 7 enquanto o Ás do naipe pode vir depois', () => {
+    const risky = tableGame([['KH'], ['7H', '2H'], ['3S']], '4C', ['KH']);
+    assert.equal(chooseBotCard(risky, 'p1', 'smart'), '2H');
+    // Com o Ás já recolhido o 7 é seguro e leva os pontos
+    const safe = tableGame([['KH'], ['7H', '2H'], ['3S']], '4C', ['KH'], { captured: ['AH'] });
+    assert.equal(chooseBotCard(safe, 'p1', 'smart'), '7H');
+    // Último a jogar: ninguém mais pode bater o 7
+    const last = tableGame([['KH'], ['7H', '2H']], '4C', ['KH']);
+    assert.equal(chooseBotCard(last, 'p1', 'smart'), '7H');
+  });
+
+  test('duplas: não corta a vaza que o parceiro já ganha', () => {
+    // p1 é parceiro de p3 e ganha com o Ás; p3 fecha a vaza e carrega pontos sem trunfo
+    const closing = tableGame([['2H'], ['AH'], ['3H'], ['2C', 'KS']], '4C', ['2H', 'AH', '3H'], { teamMode: true });
+    assert.equal(chooseBotCard(closing, 'p3', 'smart'), 'KS');
+    // p0 ganha e o parceiro p2 ainda não é o último: joga a carta mais barata, que não é o trunfo
+    const middle = tableGame([['AH'], ['2H'], ['2C', '4S'], ['3H']], '4C', ['AH', '2H'], { teamMode: true });
+    assert.equal(chooseBotCard(middle, 'p2', 'smart'), '4S');
+  });
+});
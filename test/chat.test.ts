@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { checkChatAuthor, createRateLimiter, createWordFilter, filterChatText, isQuickReaction, QUICK_REACTIONS } from "../src/chat";
+import { createGame } from "../src/gameLogic";
+import { createSession, getSession } from "../src/sessions";
+import { Room } from "../src/types";
+
+function room(): Room {
+  const game = createGame('ten_cards');
+  game.players = ['Ana', 'Bia'].map((nickname, seat) => ({ id: `p${seat}`, nickname, hand: [], score: 0, capturedCards: [], chips: 0 }));
+  return { meta: { id: 'sala_chat', capacity: 2, ownerId: 'p0', isGameStarted: false, mode: 'ten_cards' }, game };
+}
+
+describe('chat', () => {
+  test('limite por janela deslizante, separado por chave', () => {
+    let clock = 0;
+    const limiter = createRateLimiter(3, 1000, { now: () => clock });
+    assert.deepEqual([0, 100, 200, 300].map(ts => {
+      clock = ts;
+      return limiter.allow('a');
+    }), [true, true, true, false]);
+    assert.equal(limiter.allow('b'), true);
+
+    // A primeira mensagem sai da janela e libera uma vaga; recusadas não ocupam vaga
+    clock = 999;
+    assert.equal(limiter.allow('a'), false);
+    clock = 1000;
+    assert.equal(limiter.allow('a'), true);
+    assert.equal(limiter.allow('a'), false);
+
+    limiter.forget('a');
+    assert.equal(limiter.allow('a'), true);
+  });
+
+  test('filtro troca só palavras inteiras, sem diferenciar maiúsculas', () => {
+    const filter = createWordFilter([' bobo ', 'pé-frio', '']);
+    assert.equal(filter('Seu BOBO, joga logo'), 'Seu ****, joga logo');
+    assert.equal(filter('bobagem e abobora ficam'), 'bobagem e abobora ficam');
+    assert.equal(filter('que pé-frio!'), 'que *******!');
+    assert.equal(createWordFilter(['a.c'])('abc a.c'), 'abc ***');
+    assert.equal(createWordFilter([])('qualquer coisa'), 'qualquer coisa');
+    // Sem CHAT_BLOCKED_WORDS o texto passa igual
+    assert.equal(filterChatText('bobo'), 'bobo');
+  });
+
+  test('reações só da lista fixa', () => {
+    assert.ok(QUICK_REACTIONS.every(isQuickReaction));
+    for (const value of ['Good_game', 'toString', '', 7, undefined]) assert.equal(isQuickReaction(value), false);
+  });
+
+  test('quem está fora da sala, silenciado ou acima do limite não fala', () => {
+    const sala = room();
+    const limiter = createRateLimiter(1, 1000, { now: () => 0 });
+    assert.deepEqual(checkChatAuthor(undefined, 'p0', limiter, 's0'), { ok: false, code: 'not_in_room', message: 'Você não está em uma sala' });
+    assert.equal(checkChatAuthor(sala, 'p9', limiter, 's9').ok, false);
+
+    const allowed = checkChatAuthor(sala, 'p0', limiter, 's0');
+    assert.equal(allowed.ok && allowed.player.nickname, 'Ana');
+    assert.deepEqual(checkChatAuthor(sala, 'p0', limiter, 's0'), { ok: false, code: 'rate_limited', message: 'Muitas mensagens; aguarde um pouco' });
+  });
+
+  test('silêncio do dono vale depois da reconexão pela sessão', () => {
+    const sala = room();
+    const limiter = createRateLimiter(5, 1000);
+    const { token } = createSession(sala.meta.id, 'p1');
+    sala.meta.mutedPlayerIds = ['p1'];
+    assert.equal(checkChatAuthor(sala, 'p1', limiter, 'socket-antigo').ok, false);
+
+    // Novo socket retoma o assento pelo token: mesmo id de jogador, ainda silenciado
+    const resumed = getSession(token);
+    assert.equal(resumed?.playerId, 'p1');
+    const check = checkChatAuthor(sala, resumed.playerId, limiter, 'socket-novo');
+    assert.deepEqual(check, { ok: false, code: 'muted', message: 'Você foi silenciado pelo dono da sala' });
+
+    sala.meta.mutedPlayerIds = [];
+    assert.equal(checkChatAuthor(sala, resumed.playerId, limiter, 'socket-novo').ok, true);
+  });
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { applyChipAwards, evaluateChipRules, isChipRulePreset, resolveChipRules } from "../src/chipRules";
+import { createGame } from "../src/gameLogic";
+import { GameState, TablePlay, TrickRecord } from "../src/types";
+
+const play = (playerId: string, card: string): TablePlay => ({ playerId, nickname: playerId.toUpperCase(), card });
+
+// Mão com trunfo de paus; em duplas os times seguem o assento (0 e 2 contra 1 e 3)
+function handGame(players: { hand?: string[]; score?: number }[], options: { teamMode?: boolean; tricks?: TrickRecord[] } = {}): GameState {
+  const tricks = options.tricks ?? [];
+  const last = tricks[tricks.length - 1];
+  return {
+    ...createGame('ten_cards', options.teamMode),
+    players: players.map((p, seat) => ({
+      id: `p${seat}`, nickname: `P${seat}`, hand: p.hand ?? [], score: p.score ?? 0, capturedCards: [], chips: 0,
+      team: options.teamMode ? seat % 2 : undefined,
+    })),
+    teamChips: options.teamMode ? [0, 0] : undefined,
+    trumpCard: '4C',
+    isGameStarted: true,
+    tricks,
+    lastTrickWinnerId: last?.winnerId,
+    lastTrickCards: last?.cards,
+  };
+}
+
+// Código e pontos de cada regra ativa, para comparar em uma linha
+const active = (...args: Parameters<typeof resolveChipRules>) => resolveChipRules(...args).map(s => `${s.code}:${s.points}`);
+
+describe('regras de fichas', () => {
+  test('presets ligam e desligam regras; ajustes mudam valores dentro de 1 a 10', () => {
+    assert.deepEqual(active(), [
+      'captured_trump_2_initial:1',
+      'captured_both_trump_A_7_initial:1',
+      'played_trump_A_and_captured_opponent_trump_7:1',
+      'highest_score:1',
+      'king_of_trump_last_trick:1',
+    ]);
+    assert.deepEqual(active('score_only'), ['highest_score:1']);
+    assert.deepEqual(active('house_bisca'), [
+      'captured_trump_2_initial:1',
+      'captured_both_trump_A_7_initial:1',
+      'captured_opponent_trump_7:1',
+      'highest_score:1',
+      'king_of_trump_last_trick:1',
+    ]);
+
+    // Ajuste vence o preset; códigos desconhecidos não criam regras
+    assert.deepEqual(active('score_only', {
+      highest_score: { points: 3 },
+      king_of_trump_last_trick: { enabled: true, points: 25 },
+      nao_existe: { enabled: true },
+    }), ['highest_score:3', 'king_of_trump_last_trick:10']);
+    assert.deepEqual(active('standard', {
+      captured_trump_2_initial: { enabled: false },
+      captured_both_trump_A_7_initial: { enabled: false },
+      played_trump_A_and_captured_opponent_trump_7: { points: 0 },
+      highest_score: { points: 2.7 },
+      king_of_trump_last_trick: { points: Number.NaN },
+    }), ['played_trump_A_and_captured_opponent_trump_7:1', 'highest_score:2', 'king_of_trump_last_trick:1']);
+
+    assert.ok(isChipRulePreset('house_bisca'));
+    assert.equal(isChipRulePreset('toString'), false);
+  });
+
+  test('distribuição: 2 do trunfo e o par A/7 do trunfo na mão', () => {
+    const game = handGame([{ hand: ['2C', 'AC', '7C'] }, { hand: ['AH', '7H'] }, { hand: ['2H'] }]);
+    assert.deepEqual(evaluateChipRules(resolveChipRules(), 'deal', game), {
+      awards: [{ playerId: 'p0', delta: 2, reasons: ['captured_trump_2_initial', 'captured_both_trump_A_7_initial'] }],
+      teamOnlyAwards: [],
+    });
+    // Valor ajustado soma no mesmo prêmio; regras desligadas não contam
+    assert.deepEqual(evaluateChipRules(resolveChipRules('standard', { captured_trump_2_initial: { points: 3 } }), 'deal', game).awards, [
+      { playerId: 'p0', delta: 4, reasons: ['captured_trump_2_initial', 'captured_both_trump_A_7_initial'] },
+    ]);
+    assert.deepEqual(evaluateChipRules(resolveChipRules('score_only'), 'deal', game).awards, []);
+    // Regras de outra fase não são avaliadas
+    assert.deepEqual(evaluateChipRules(resolveChipRules(), 'hand_end', game).awards, []);
+  });
+
+  test('vaza: 7 do trunfo levado de um adversário só na casa, e nunca do parceiro', () => {
+    const trick = { winnerId: 'p1', cards: [play('p0', '7C'), play('p1', 'AC')] };
+    const game = handGame([{}, {}]);
+    assert.deepEqual(evaluateChipRules(resolveChipRules('house_bisca'), 'trick', game, trick).awards, [
+      { playerId: 'p1', delta: 1, reasons: ['captured_opponent_trump_7'] },
+    ]);
+    assert.deepEqual(evaluateChipRules(resolveChipRules(), 'trick', game, trick).awards, []);
+    assert.deepEqual(evaluateChipRules(resolveChipRules('house_bisca'), 'trick', game).awards, []);
+
+    const teams = handGame([{}, {}, {}, {}], { teamMode: true });
+    const fromPartner = { winnerId: 'p2', cards: [play('p0', '7C'), play('p1', '2H'), play('p2', 'AC'), play('p3', '3H')] };
+    assert.deepEqual(evaluateChipRules(resolveChipRules('house_bisca'), 'trick', teams, fromPartner).awards, []);
+    const fromOpponent = { winnerId: 'p3', cards: [play('p0', '7C'), play('p1', '2H'), play('p2', '3H'), play('p3', 'AC')] };
+    assert.deepEqual(evaluateChipRules(resolveChipRules('house_bisca'), 'trick', teams, fromOpponent).awards, [
+      { playerId: 'p3', delta: 1, reasons: ['captured_opponent_trump_7'] },
+    ]);
+  });
+
+  test('fim da mão: A do trunfo com 7 levado, maior pontuação e K do trunfo na última vaza', () => {
+    const tricks = [
+      { winnerId: 'p0', cards: [play('p1', '7C'), play('p0', 'AC')] },
+      { winnerId: 'p1', cards: [play('p0', '2H'), play('p1', 'KC')] },
+    ];
+    const game = handGame([{ score: 21 }, { score: 4 }], { tricks });
+    assert.deepEqual(evaluateChipRules(resolveChipRules(), 'hand_end', game).awards, [
+      { playerId: 'p0', delta: 2, reasons: ['played_trump_A_and_captured_opponent_trump_7', 'highest_score'] },
+      { playerId: 'p1', delta: 1, reasons: ['king_of_trump_last_trick'] },
+    ]);
+
+    // Empate na pontuação não dá ficha; A ou 7 do trunfo na última vaza tiram o prêmio do K
+    const tied = handGame([{ score: 10 }, { score: 10 }], {
+      tricks: [{ winnerId: 'p1', cards: [play('p0', '7C'), play('p1', 'KC')] }],
+    });
+    assert.deepEqual(evaluateChipRules(resolveChipRules(), 'hand_end', tied).awards, []);
+  });
+
+  test('duplas: maior pontuação vai para a dupla e prêmios individuais somam nela', () => {
+    const tricks = [{ winnerId: 'p3', cards: [play('p0', '2H'), play('p1', '3H'), play('p2', '4H'), play('p3', 'KC')] }];
+    const game = handGame([{ score: 10 }, { score: 30 }, { score: 15 }, { score: 5 }], { teamMode: true, tricks });
+    const { awards, teamOnlyAwards } = evaluateChipRules(resolveChipRules(), 'hand_end', game);
+    // Dupla 1 (p1 + p3) soma 35 contra 25
+    assert.deepEqual(teamOnlyAwards, [{ team: 1, delta: 1, reasons: ['highest_score'] }]);
+    assert.deepEqual(awards, [{ playerId: 'p3', delta: 1, reasons: ['king_of_trump_last_trick'] }]);
+
+    const credited = applyChipAwards(game, awards, teamOnlyAwards);
+    assert.deepEqual(credited.game.players.map(p => p.chips), [0, 0, 0, 1]);
+    assert.deepEqual(credited.game.teamChips, [0, 2]);
+    assert.deepEqual(credited.teamAwards, [{ team: 1, delta: 2, reasons: ['king_of_trump_last_trick', 'highest_score'] }]);
+  });
+});
@@ -0,0 +1,369 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, describe, test } from "node:test";
+import { createClient } from "redis";
+import { Server } from "socket.io";
+import { io as connect } from "socket.io-client";
+import {
+  Backplane, createBackplane, createBackplaneAdapter, createEventRouter, createInstanceLink, createMemoryBackplane, createRedisBackplane, EventRouter,
+  InstanceMessage, RedisBackplaneClient, RemoteSocket,
+} from "../src/cluster";
+import { ClientToServerEvents, ServerToClientEvents } from "../src/events";
+
+// O backplane em memória entrega as mensagens no próximo ciclo, como se viessem pela rede
+const delivered = () => new Promise(resolve => setImmediate(resolve));
+
+describe('backplane em memória', () => {
+  test('entrega uma cópia só aos inscritos do canal, depois de publicar', async () => {
+    const backplane = createMemoryBackplane();
+    const received: unknown[] = [];
+    const other: unknown[] = [];
+    const unsubscribe = backplane.subscribe('a', message => received.push(message));
+    backplane.subscribe('b', message => other.push(message));
+
+    const message = { n: 1 };
+    backplane.publish('a', message);
+    assert.deepEqual(received, []);
+    await delivered();
+    assert.deepEqual(received, [{ n: 1 }]);
+    assert.notEqual(received[0], message);
+    assert.deepEqual(other, []);
+
+    unsubscribe();
+    backplane.publish('a', { n: 2 });
+    await delivered();
+    assert.equal(received.length, 1);
+  });
+
+  test('posse: só o dono renova ou libera; expira sem renovação', async () => {
+    let clock = 1000;
+    const backplane = createMemoryBackplane({ now: () => clock });
+    assert.equal(await backplane.claim('sala', 'A', 100), true);
+    assert.equal(await backplane.claim('sala', 'B', 100), false);
+    assert.equal(await backplane.owner('sala'), 'A');
+
+    clock += 90;
+    assert.equal(await backplane.claim('sala', 'A', 100), true);
+    clock += 90;
+    assert.equal(await backplane.owner('sala'), 'A');
+    await backplane.release('sala', 'B');
+    assert.equal(await backplane.owner('sala'), 'A');
+
+    clock += 10;
+    assert.equal(await backplane.owner('sala'), undefined);
+    assert.equal(await backplane.claim('sala', 'B', 100), true);
+    await backplane.release('sala', 'B');
+    assert.equal(await backplane.owner('sala'), undefined);
+  });
+});
+
+// Redis falso no processo: chaves com PX, pub/sub e os dois scripts do backplane, reconhecidos pelo texto.
+// Como o cliente de verdade, recusa comandos antes de conectar; as conexões só abrem quando o teste manda.
+function fakeRedis(now: () => number) {
+  const keys = new Map<string, { value: string; expiresAt: number }>();
+  const channels = new Map<string, Set<(message: string) => void>>();
+  let open = () => {};
+  const opened = new Promise<void>(resolve => { open = resolve; });
+  const get = (key: string) => {
+    const entry = keys.get(key);
+    if (entry && entry.expiresAt <= now()) keys.delete(key);
+    return keys.get(key)?.value ?? null;
+  };
+
+  const createFakeClient = (): RedisBackplaneClient => {
+    let connected = false;
+    const command = async <T>(run: () => T) => {
+      if (!connected) throw new Error('The client is closed');
+      return run();
+    };
+    return {
+      on: () => undefined,
+      connect: () => opened.then(() => { connected = true; }),
+      publish: (channel, message) => command(() => {
+        const listeners = Array.from(channels.get(channel) || []);
+        setImmediate(() => listeners.forEach(listener => listener(message)));
+        return listeners.length;
+      }),
+      subscribe: (channel, listener) => command(() => {
+        channels.set(channel, (channels.get(channel) || new Set()).add(listener));
+      }),
+      unsubscribe: (channel, listener) => command(() => {
+        channels.get(channel)?.delete(listener);
+      }),
+      eval: (script, { keys: [key], arguments: [owner, ttl] }) => command(() => {
+        const current = get(key);
+        if (script.includes("'SET'")) {
+          if (current !== null && current !== owner) return 0;
+          keys.set(key, { value: owner, expiresAt: now() + Number(ttl) });
+          return 1;
+        }
+        if (current !== owner) return 0;
+        keys.delete(key);
+        return 1;
+      }),
+      get: key => command(() => get(key)),
+    };
+  };
+  return { open, createClient: createFakeClient };
+}
+
+describe('backplane no Redis', () => {
+  test('comandos dados antes de conectar esperam a conexão; mensagens vão só aos inscritos', async () => {
+    const redis = fakeRedis(Date.now);
+    const backplane = createRedisBackplane('redis://falso', { createClient: redis.createClient });
+    const received: unknown[] = [];
+    const other: unknown[] = [];
+    const unsubscribe = backplane.subscribe('a', message => received.push(message));
+    backplane.subscribe('b', message => other.push(message));
+    backplane.publish('a', { n: 1 });
+    const claimed = backplane.claim('sala', 'A', 1000);
+
+    redis.open();
+    assert.equal(await claimed, true);
+    await delivered();
+    assert.deepEqual(received, [{ n: 1 }]);
+    assert.deepEqual(other, []);
+
+    unsubscribe();
+    await delivered();
+    backplane.publish('a', { n: 2 });
+    await delivered();
+    await delivered();
+    assert.equal(received.length, 1);
+  });
+
+  test('posse pelos scripts: só o dono renova ou libera; expira sem renovação', async () => {
+    let clock = 1000;
+    const redis = fakeRedis(() => clock);
+    redis.open();
+    const a = createRedisBackplane('redis://falso', { createClient: redis.createClient });
+    const b = createRedisBackplane('redis://falso', { createClient: redis.createClient });
+    assert.equal(await a.claim('sala', 'A', 100), true);
+    assert.equal(await b.claim('sala', 'B', 100), false);
+    assert.equal(await b.owner('sala'), 'A');
+
+    clock += 90;
+    assert.equal(await a.claim('sala', 'A', 100), true);
+    clock += 90;
+    await b.release('sala', 'B');
+    assert.equal(await b.owner('sala'), 'A');
+
+    clock += 10;
+    assert.equal(await a.owner('sala'), undefined);
+    assert.equal(await b.claim('sala', 'B', 100), true);
+    await b.release('sala', 'B');
+    assert.equal(await a.owner('sala'), undefined);
+  });
+});
+
+// Contra um Redis de verdade só com BACKPLANE_URL (ex.: BACKPLANE_URL=redis://localhost:6379 npm test)
+describe('backplane no Redis real', { skip: !process.env.BACKPLANE_URL && 'sem BACKPLANE_URL' }, () => {
+  const clients: { close(): Promise<void> }[] = [];
+  const open = () => createRedisBackplane(process.env.BACKPLANE_URL || '', {
+    createClient: url => {
+      const client = createClient({ url });
+      clients.push(client);
+      return client;
+    },
+  });
+  // Chaves e canais únicos por execução, para não esbarrar em nada que já esteja no servidor
+  const prefix = `bisca:teste:${randomBytes(4).toString('hex')}`;
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  after(() => Promise.all(clients.map(client => client.close())));
+
+  test('mensagens passam entre dois backplanes pelo pub/sub', async () => {
+    const a = open();
+    const b = open();
+    const received = new Promise(resolve => b.subscribe(`${prefix}:canal`, resolve));
+    // A assinatura anda na conexão de pub/sub; publicar logo em seguida poderia chegar antes dela
+    await wait(200);
+    a.publish(`${prefix}:canal`, { n: 1 });
+    assert.deepEqual(await received, { n: 1 });
+  });
+
+  test('posse: só o dono renova ou libera; expira sem renovação', async () => {
+    const a = open();
+    const b = open();
+    const key = `${prefix}:sala`;
+    assert.equal(await a.claim(key, 'A', 300), true);
+    assert.equal(await b.claim(key, 'B', 300), false);
+    assert.equal(await b.owner(key), 'A');
+    await b.release(key, 'B');
+    assert.equal(await b.owner(key), 'A');
+
+    await wait(400);
+    assert.equal(await a.owner(key), undefined);
+    assert.equal(await b.claim(key, 'B', 300), true);
+    await b.release(key, 'B');
+    assert.equal(await a.owner(key), undefined);
+  });
+});
+
+describe('ligação entre instâncias', () => {
+  function link(backplane: ReturnType<typeof createMemoryBackplane>, instanceId: string) {
+    const inbox: InstanceMessage[] = [];
+    return { inbox, link: createInstanceLink(backplane, instanceId, message => inbox.push(message)) };
+  }
+
+  test('mensagem direta chega só à instância alvo; broadcast não volta para quem enviou', async () => {
+    const backplane = createMemoryBackplane();
+    const a = link(backplane, 'A');
+    const b = link(backplane, 'B');
+    const c = link(backplane, 'C');
+
+    a.link.send('B', { type: 'disconnect', socketId: 's1', reason: 'transport close' });
+    a.link.broadcast({ type: 'lobbySync', origin: 'A' });
+    await delivered();
+    assert.deepEqual(a.inbox, []);
+    assert.deepEqual(b.inbox, [{ type: 'disconnect', socketId: 's1', reason: 'transport close' }, { type: 'lobbySync', origin: 'A' }]);
+    assert.deepEqual(c.inbox, [{ type: 'lobbySync', origin: 'A' }]);
+    [a, b, c].forEach(i => i.link.close());
+  });
+
+  test('a primeira instância a reivindicar a sala é a dona até liberar ou fechar', async () => {
+    const backplane = createMemoryBackplane();
+    const a = link(backplane, 'A');
+    const b = link(backplane, 'B');
+    assert.equal(await a.link.isAlive('B'), true);
+
+    assert.equal(await a.link.claimRoom('sala1'), true);
+    assert.equal(await b.link.claimRoom('sala1'), false);
+    assert.equal(await b.link.ownerOf('sala1'), 'A');
+
+    a.link.releaseRoom('sala1');
+    await delivered();
+    assert.equal(await b.link.ownerOf('sala1'), undefined);
+    assert.equal(await b.link.claimRoom('sala1'), true);
+
+    b.link.close();
+    await delivered();
+    assert.equal(await a.link.ownerOf('sala1'), undefined);
+    assert.equal(await a.link.isAlive('B'), false);
+    a.link.close();
+  });
+});
+
+describe('adapter do Socket.IO', () => {
+  test('servidores no mesmo backplane trocam eventos entre si', async () => {
+    const backplane = createMemoryBackplane();
+    const a = new Server();
+    const b = new Server();
+    a.adapter(createBackplaneAdapter(backplane));
+    b.adapter(createBackplaneAdapter(backplane));
+    try {
+      const received = new Promise<unknown[]>(resolve => b.on('ping', (...args: unknown[]) => resolve(args)));
+      a.serverSideEmit('ping', { roomId: 'sala1' }, 2);
+      assert.deepEqual(await received, [{ roomId: 'sala1' }, 2]);
+      // Os servidores se enxergam pelos heartbeats do adapter
+      assert.equal(await a.of('/').adapter.serverCount(), 2);
+    } finally {
+      // Sem servidor HTTP não há engine para io.close(); basta parar os heartbeats dos adapters
+      a.of('/').adapter.close();
+      b.of('/').adapter.close();
+    }
+  });
+});
+
+describe('escolha do backplane', () => {
+  test('sem BACKPLANE_URL usa a memória; esquema desconhecido é recusado', () => {
+    assert.equal(typeof createBackplane(undefined).publish, 'function');
+    assert.throws(() => createBackplane('http://localhost:6379'), /redis:\/\/ ou rediss:\/\//);
+  });
+});
+
+// Instância mínima sobre o backplane: servidor HTTP com Socket.IO, adapter, ligação e router, como no index.
+// joinRoom vai para a dona da sala do payload; chatMessage, para a sala onde o socket está.
+// As respostas dizem qual instância tratou o evento.
+async function startInstance(backplane: Backplane, instanceId: string) {
+  const httpServer = createServer();
+  const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer);
+  io.adapter(createBackplaneAdapter(backplane));
+  const rooms = new Set<string>();
+  const handled: { event: string; socketId: string }[] = [];
+  let router: EventRouter;
+  const link = createInstanceLink(backplane, instanceId, message => router.handleMessage(message));
+
+  const registerHandlers = (socket: RemoteSocket) => {
+    socket.on('joinRoom', (payload, ack) => {
+      const { roomId } = payload as { roomId: string };
+      handled.push({ event: 'joinRoom', socketId: socket.id });
+      socket.join(roomId);
+      router.updateRoute(socket.id, roomId);
+      socket.emit('serverNotice', { message: `${roomId}@${instanceId}`, ts: 0 });
+      (ack as (result: unknown) => void)({ ok: true, instanceId });
+    });
+    socket.on('chatMessage', payload => {
+      handled.push({ event: 'chatMessage', socketId: socket.id });
+      io.to('sala1').emit('roomLog', { ts: 0, text: `${(payload as { text: string }).text}@${instanceId}`, type: 'chat' });
+    });
+    socket.on('disconnect', () => handled.push({ event: 'disconnect', socketId: socket.id }));
+  };
+  router = createEventRouter(io, link, {
+    roomOf: (event, payload) => event === 'joinRoom' ? (payload as { roomId: string }).roomId : event === 'chatMessage' ? undefined : null,
+    isLocalRoom: roomId => rooms.has(roomId),
+    registerHandlers,
+  });
+  io.on('connection', socket => {
+    socket.use((packet, next) => router.route(socket, packet, next));
+    socket.on('disconnect', reason => router.socketClosed(socket.id, reason));
+    registerHandlers(socket);
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(0, resolve));
+  return {
+    link,
+    rooms,
+    handled,
+    port: (httpServer.address() as AddressInfo).port,
+    close: () => {
+      link.close();
+      io.close();
+    },
+  };
+}
+
+async function until(condition: () => boolean) {
+  for (let i = 0; !condition(); i++) {
+    assert.ok(i < 200, 'condição não foi atingida');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('eventos entre instâncias', () => {
+  test('socket conectado em outra instância é tratado pela dona da sala e recebe as respostas', async () => {
+    const backplane = createMemoryBackplane();
+    const a = await startInstance(backplane, 'A');
+    const b = await startInstance(backplane, 'B');
+    assert.equal(await a.link.claimRoom('sala1'), true);
+    a.rooms.add('sala1');
+    const client = connect(`http://localhost:${b.port}`, { transports: ['websocket'] });
+    try {
+      await new Promise<void>(resolve => client.once('connect', () => resolve()));
+      const socketId = client.id;
+      const joined = new Promise(resolve => client.once('serverNotice', resolve));
+
+      // Sala no payload: B consulta a dona no backplane e encaminha; o ack volta pela ligação
+      assert.deepEqual(await client.emitWithAck('joinRoom', { roomId: 'sala1' }), { ok: true, instanceId: 'A' });
+      assert.deepEqual(await joined, { message: 'sala1@A', ts: 0 });
+
+      // Sem sala no payload: B já tem a rota do socket para A; o broadcast da sala chega pelo adapter
+      const chat = new Promise(resolve => client.once('roomLog', resolve));
+      client.emit('chatMessage', { text: 'oi' });
+      assert.deepEqual(await chat, { ts: 0, text: 'oi@A', type: 'chat' });
+
+      assert.deepEqual(a.handled, [{ event: 'joinRoom', socketId }, { event: 'chatMessage', socketId }]);
+      assert.deepEqual(b.handled, []);
+
+      // A queda do socket em B vira o disconnect do representante em A
+      client.disconnect();
+      await until(() => a.handled.length === 3);
+      assert.deepEqual(a.handled[2], { event: 'disconnect', socketId });
+    } finally {
+      client.close();
+      a.close();
+      b.close();
+    }
+  });
+});
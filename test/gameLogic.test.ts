@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  createGame, determineRoundWinner, findTrickLeader, getCardOrder, getLegalCards, isHandOver, playCard, resolveTrick, startGame, validatePlay,
+} from "../src/gameLogic";
+import { GameMode, GameState } from "../src/types";
+
+// Mesa montada à mão: mãos fixas, trunfo escolhido e a vez no assento dado
+function fixedGame(hands: string[][], trumpCard: string, options: { turn?: number; roundNumber?: number; mode?: GameMode; deck?: string[] } = {}): GameState {
+  const game = createGame(options.mode ?? 'ten_cards');
+  return {
+    ...game,
+    players: hands.map((hand, seat) => ({ id: `p${seat}`, nickname: `P${seat}`, hand, score: 0, capturedCards: [], chips: 0 })),
+    trumpCard,
+    deck: options.deck ?? [],
+    turn: options.turn ?? 0,
+    roundNumber: options.roundNumber ?? 2,
+    isGameStarted: true,
+  };
+}
+
+// Joga as cartas na ordem dada, a partir de quem tem a vez, e recolhe a vaza
+function playTrick(game: GameState, cards: string[]): GameState {
+  let state = game;
+  for (const card of cards) {
+    const player = state.players[state.turn];
+    const next = playCard(state, player.id, card);
+    assert.notEqual(next, state, `${player.id} deveria poder jogar ${card}`);
+    state = next;
+  }
+  return resolveTrick(state);
+}
+
+describe('ordem das cartas', () => {
+  test('A > 7 > K > J > Q > 6 > 5 > 4 > 3 > 2', () => {
+    const values = ['A', '7', 'K', 'J', 'Q', '6', '5', '4', '3', '2'];
+    for (let i = 1; i < values.length; i++) {
+      assert.ok(getCardOrder(values[i - 1]) > getCardOrder(values[i]), `${values[i - 1]} deveria vencer ${values[i]}`);
+    }
+  });
+});
+
+describe('vencedor da vaza', () => {
+  test('vence a maior carta do naipe de saída', () => {
+    assert.equal(findTrickLeader(['5H', '2H'], 'C'), 0);
+    assert.equal(findTrickLeader(['5H', 'KH'], 'C'), 1);
+    assert.equal(findTrickLeader(['QH', 'JH', 'KH', '7H'], 'C'), 3);
+  });
+
+  test('carta de outro naipe sem trunfo não vence, mesmo maior', () => {
+    assert.equal(findTrickLeader(['2H', 'AS'], 'C'), 0);
+    assert.equal(findTrickLeader(['3H', 'AS', '7D', '4H'], 'C'), 3);
+  });
+
+  test('trunfo vence não-trunfo', () => {
+    assert.equal(findTrickLeader(['AH', '2C'], 'C'), 1);
+    assert.equal(findTrickLeader(['2C', 'AH', '7H'], 'C'), 0);
+  });
+
+  test('entre trunfos vence o maior', () => {
+    assert.equal(findTrickLeader(['3C', 'AC', '7C'], 'C'), 1);
+    assert.equal(findTrickLeader(['KH', '2C', '5C', 'AH'], 'C'), 2);
+  });
+
+  test('casamento 7/A: o A leva o 7 do mesmo naipe, na saída ou depois', () => {
+    assert.equal(findTrickLeader(['7H', 'AH'], 'S'), 1);
+    assert.equal(findTrickLeader(['AH', '7H'], 'S'), 0);
+    assert.equal(findTrickLeader(['7S', 'AS'], 'S'), 1);
+    assert.equal(findTrickLeader(['AS', '7S', 'KS'], 'S'), 0);
+  });
+
+  test('casamento só vale no mesmo naipe: 7 de trunfo vence A de outro naipe', () => {
+    assert.equal(findTrickLeader(['AH', '7C'], 'C'), 1);
+    assert.equal(findTrickLeader(['7C', 'AH'], 'C'), 0);
+  });
+
+  test('determineRoundWinner só decide com a mesa completa', () => {
+    const game = fixedGame([['5H'], ['KH']], '2C');
+    assert.equal(determineRoundWinner(game), null);
+    const played = playCard(game, 'p0', '5H');
+    assert.equal(determineRoundWinner(played), null);
+    assert.equal(determineRoundWinner(playCard(played, 'p1', 'KH')), 1);
+  });
+});
+
+describe('validação de jogadas', () => {
+  test('deve seguir o naipe de saída se tiver', () => {
+    const game = playCard(fixedGame([['5H', '2S'], ['KS', '3H']], '2C'), 'p0', '5H');
+    assert.deepEqual(validatePlay(game, 'p1', 'KS'), { ok: false, code: 'must_follow_suit', message: 'Você deve seguir o naipe H' });
+    assert.deepEqual(validatePlay(game, 'p1', '3H'), { ok: true });
+    assert.deepEqual(getLegalCards(game, 'p1'), ['3H']);
+  });
+
+  test('sem o naipe de saída, qualquer carta vale', () => {
+    const game = playCard(fixedGame([['5H', '2S'], ['KS', '3D']], '2C'), 'p0', '5H');
+    assert.deepEqual(getLegalCards(game, 'p1'), ['KS', '3D']);
+  });
+
+  test('primeira saída da mão de 10 cartas deve ser trunfo, se houver', () => {
+    const game = fixedGame([['5H', '2C'], ['KS', '3D']], '4C', { roundNumber: 1 });
+    assert.equal(validatePlay(game, 'p0', '5H').ok, false);
+    assert.deepEqual(getLegalCards(game, 'p0'), ['2C']);
+    const noTrump = fixedGame([['5H', '2S'], ['KC', '3D']], '4C', { roundNumber: 1 });
+    assert.deepEqual(getLegalCards(noTrump, 'p0'), ['5H', '2S']);
+  });
+
+  test('modo clássico: naipe livre enquanto houver baralho', () => {
+    const withDeck = playCard(fixedGame([['5H', '2S'], ['KS', '3H']], '2C', { mode: 'classic', deck: ['4D', '2C'] }), 'p0', '5H');
+    assert.deepEqual(getLegalCards(withDeck, 'p1'), ['KS', '3H']);
+    const emptyDeck = playCard(fixedGame([['5H', '2S'], ['KS', '3H']], '2C', { mode: 'classic' }), 'p0', '5H');
+    assert.deepEqual(getLegalCards(emptyDeck, 'p1'), ['3H']);
+  });
+
+  test('recusa fora da vez, carta fora da mão e mesa completa', () => {
+    const game = fixedGame([['5H'], ['KH']], '2C');
+    assert.deepEqual(validatePlay(game, 'p1', 'KH'), { ok: false, code: 'not_your_turn', message: 'Não é a sua vez' });
+    assert.deepEqual(validatePlay(game, 'p0', 'AS'), { ok: false, code: 'card_not_in_hand', message: 'Carta não está na sua mão' });
+    const full = playCard(playCard(game, 'p0', '5H'), 'p1', 'KH');
+    assert.equal(full.turn, 0);
+    assert.deepEqual(validatePlay(full, 'p0', '5H'), { ok: false, code: 'trick_resolving', message: 'Aguarde a vaza ser recolhida' });
+    // Jogada recusada devolve o mesmo estado
+    assert.equal(playCard(game, 'p1', 'KH'), game);
+  });
+});
+
+describe('rotação do vencedor', () => {
+  // Cada assento joga uma carta de copas; só o assento `winnerSeat` tem o A
+  for (const players of [2, 3, 4]) {
+    for (let start = 0; start < players; start++) {
+      for (let winnerSeat = 0; winnerSeat < players; winnerSeat++) {
+        test(`${players} jogadores, saída do assento ${start}, vence o assento ${winnerSeat}`, () => {
+          const low = ['2H', '3H', '4H', '5H'];
+          const hands = Array.from({ length: players }, (_, seat) => [seat === winnerSeat ? 'AH' : low[seat], '6S']);
+          const order = Array.from({ length: players }, (_, i) => (start + i) % players);
+          const game = playTrick(fixedGame(hands, '2C', { turn: start }), order.map(seat => hands[seat][0]));
+
+          assert.equal(game.turn, winnerSeat);
+          assert.equal(game.lastTrickWinnerId, `p${winnerSeat}`);
+          assert.equal(game.roundNumber, 3);
+          assert.deepEqual(game.table, []);
+          assert.equal(game.players[winnerSeat].score, 10);
+          assert.deepEqual(game.players[winnerSeat].capturedCards.sort(), order.map(seat => hands[seat][0]).sort());
+          assert.equal(game.tricks?.length, 1);
+          game.players.forEach((p, seat) => {
+            assert.deepEqual(p.hand, ['6S']);
+            if (seat !== winnerSeat) assert.equal(p.score, 0);
+          });
+        });
+      }
+    }
+  }
+
+  test('vencedor sai na vaza seguinte e leva os pontos somados', () => {
+    const hands = [['7C', 'KS'], ['AH', 'QS'], ['2H', 'JS']];
+    let game = fixedGame(hands, '3C', { turn: 1 });
+    game = playTrick(game, ['AH', '2H', '7C']);
+    assert.equal(game.turn, 0);
+    assert.equal(game.players[0].score, 21);
+    game = playTrick(game, ['KS', 'QS', 'JS']);
+    assert.equal(game.turn, 0);
+    assert.equal(game.players[0].score, 30);
+    assert.ok(isHandOver(game));
+  });
+
+  test('modo clássico: cada um compra a partir do vencedor; o trunfo virado é o último', () => {
+    const hands = [['5H'], ['AH'], ['2H']];
+    const game = playTrick(fixedGame(hands, '3C', { mode: 'classic', deck: ['KD', 'QS', '3C'] }), ['5H', 'AH', '2H']);
+    assert.equal(game.turn, 1);
+    assert.deepEqual(game.players.map(p => p.hand), [['3C'], ['KD'], ['QS']]);
+    assert.deepEqual(game.deck, []);
+  });
+});
+
+describe('distribuição', () => {
+  test('mesma semente gera a mesma mão', () => {
+    const table = { ...createGame(), players: fixedGame([[], [], []], '').players };
+    const a = startGame(table, 'semente-fixa');
+    const b = startGame(table, 'semente-fixa');
+    assert.deepEqual(a.players.map(p => p.hand), b.players.map(p => p.hand));
+    assert.equal(a.trumpCard, b.trumpCard);
+    assert.notDeepEqual(startGame(table, 'outra-semente').players.map(p => p.hand), a.players.map(p => p.hand));
+  });
+
+  test('10 cartas: dez para cada, trunfo sai de alguma mão', () => {
+    for (const players of [2, 3, 4]) {
+      const game = startGame({ ...createGame(), players: fixedGame(Array.from({ length: players }, () => []), '').players }, `dist-${players}`);
+      assert.ok(game.players.every(p => p.hand.length === 10));
+      assert.equal(game.deck.length, 40 - players * 10);
+      assert.ok(game.players.some(p => p.hand.includes(game.trumpCard)));
+      assert.equal(game.roundNumber, 1);
+      assert.equal(game.turn, 0);
+    }
+  });
+
+  test('clássico: três para cada, trunfo é a última carta do baralho; com 3 jogadores sai o 2 de ouros', () => {
+    for (const players of [2, 3, 4]) {
+      const game = startGame({ ...createGame('classic'), players: fixedGame(Array.from({ length: players }, () => []), '').players }, `classic-${players}`);
+      assert.ok(game.players.every(p => p.hand.length === 3));
+      assert.equal(game.trumpCard, game.deck[game.deck.length - 1]);
+      const total = players === 3 ? 39 : 40;
+      assert.equal(game.deck.length, total - players * 3);
+      if (players === 3) assert.ok(![...game.deck, ...game.players.flatMap(p => p.hand)].includes('2D'));
+    }
+  });
+
+  test('duplas: assentos opostos na mesma dupla; exige 4 jogadores', () => {
+    const four = startGame({ ...createGame('ten_cards', true), players: fixedGame([[], [], [], []], '').players }, 'duplas');
+    assert.deepEqual(four.players.map(p => p.team), [0, 1, 0, 1]);
+    const three = { ...createGame('ten_cards', true), players: fixedGame([[], [], []], '').players };
+    assert.equal(startGame(three, 'duplas'), three);
+  });
+});
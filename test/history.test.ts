@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { describe, test } from "node:test";
+import { createGame, getLegalCards } from "../src/gameLogic";
+import { replayHand } from "../src/history";
+import { createRoomController, RoomBroadcast } from "../src/roomController";
+import { GameState, Room } from "../src/types";
+
+// O que o replay precisa reproduzir: mãos, mesa, vazas e placar
+function snapshot(game: GameState) {
+  return {
+    turn: game.turn,
+    trumpCard: game.trumpCard,
+    table: game.table.map(t => t.card),
+    tricks: (game.tricks || []).map(t => [t.winnerId, t.cards.map(c => c.card)]),
+    players: game.players.map(p => ({ id: p.id, hand: [...p.hand], captured: [...p.capturedCards], score: p.score, chips: p.chips ?? 0 })),
+  };
+}
+
+// Mão de três jogadores com relógio manual; a cada stateChanged guarda o estado ao vivo e quantos eventos o histórico tinha
+function playHand(mode: 'ten_cards' | 'classic') {
+  const game = createGame(mode);
+  game.players = ['Ana', 'Bia', 'Caio'].map((nickname, seat) => ({ id: `p${seat}`, nickname, hand: [], score: 0, capturedCards: [], chips: 0, connected: true }));
+  const room: Room = {
+    meta: { id: 'sala', capacity: 3, ownerId: 'p0', isGameStarted: false, mode, totalRounds: 1, currentRound: 1 },
+    game,
+  };
+  const live: { step: number; state: ReturnType<typeof snapshot> }[] = [];
+  const events: RoomBroadcast[] = [];
+  let pending: (() => void)[] = [];
+  const controller = createRoomController(room, {
+    broadcast: (...message) => events.push(message),
+    stateChanged: () => {
+      const history = controller.histories[controller.histories.length - 1];
+      if (history && !history.finishedAt) live.push({ step: history.events.length, state: snapshot(room.game) });
+    },
+    playersChanged: () => {},
+    log: () => {},
+    schedule: callback => {
+      pending.push(callback);
+      return () => { pending = pending.filter(c => c !== callback); };
+    },
+  });
+  assert.deepEqual(controller.start(), { ok: true });
+  for (let guard = 0; controller.phase !== 'match_finished'; guard++) {
+    assert.ok(guard < 200, 'mão não terminou');
+    if (controller.phase === 'trick_resolving') {
+      const tasks = pending;
+      pending = [];
+      tasks.forEach(t => t());
+      continue;
+    }
+    const current = room.game.players[room.game.turn];
+    assert.deepEqual(controller.play(current.id, getLegalCards(room.game, current.id)[0]), { ok: true });
+  }
+  assert.equal(controller.histories.length, 1);
+  const roundFinished = events.find(([event]) => event === 'roundFinished');
+  assert.ok(roundFinished?.[0] === 'roundFinished');
+  return { history: controller.histories[0], live, roundFinished: roundFinished[1] };
+}
+
+describe('histórico de mãos', () => {
+  for (const mode of ['ten_cards', 'classic'] as const) {
+    test(`replay passo a passo reproduz a mão jogada (${mode})`, () => {
+      const { history, live, roundFinished } = playHand(mode);
+      assert.ok(live.length > 10);
+      for (const { step, state } of live) {
+        assert.deepEqual(snapshot(replayHand(history, step)), state, `passo ${step}`);
+      }
+
+      // Mão inteira: vazas da última jogada ao vivo; pontos e fichas (com as de fim de mão) do roundFinished
+      const final = replayHand(history);
+      assert.ok(final.players.every(p => p.hand.length === 0));
+      assert.deepEqual(snapshot(final).tricks, live[live.length - 1].state.tricks);
+      assert.deepEqual(final.players.map(p => p.score), roundFinished.scores.map(s => s.score));
+      assert.deepEqual(final.players.map(p => p.chips), roundFinished.totalChips.map(c => c.chips));
+      assert.equal(replayHand(history, 0).players.every(p => p.hand.length === 0), true);
+    });
+  }
+
+  test('semente revelada confere com o seedHash publicado', () => {
+    const { history, roundFinished } = playHand('ten_cards');
+    assert.ok(history.seed);
+    assert.equal(history.seedHash, createHash('sha256').update(history.seed).digest('hex'));
+    // A mesma semente e o mesmo hash saem na revelação do roundFinished
+    assert.deepEqual([roundFinished.seed, roundFinished.seedHash], [history.seed, history.seedHash]);
+  });
+});
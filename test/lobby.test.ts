@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createGame } from "../src/gameLogic";
+import { buildLobbyEntry, findQuickMatchEntry, findQuickMatchRoom, listLobby } from "../src/lobby";
+import { GameMode, Room } from "../src/types";
+
+// Sala com `seated` jogadores já com cartas na mão e conta vinculada, para ver que nada disso vaza
+function room(id: string, options: { seated?: number; capacity?: number; mode?: GameMode; isPublic?: boolean; started?: boolean; createdAt?: number } = {}): Room {
+  const mode = options.mode ?? 'ten_cards';
+  const game = createGame(mode);
+  game.players = Array.from({ length: options.seated ?? 1 }, (_, seat) => ({
+    id: `${id}_p${seat}`, nickname: `J${seat}`, hand: ['AS', '7S'], score: 0, capturedCards: ['2H'], chips: 0, accountId: `conta_${seat}`,
+  }));
+  return {
+    meta: {
+      id, capacity: options.capacity ?? 2, ownerId: `${id}_p0`, isGameStarted: !!options.started, mode,
+      isPublic: options.isPublic ?? true, createdAt: options.createdAt ?? 0,
+    },
+    game,
+  };
+}
+
+describe('lobby', () => {
+  test('entrada expõe status, assentos e regras, sem mãos, ids nem contas', () => {
+    const waiting = room('sala1', { capacity: 3, seated: 2, createdAt: 10 });
+    waiting.meta.turnTimeoutMs = 30000;
+    assert.deepEqual(buildLobbyEntry(waiting), {
+      roomId: 'sala1',
+      capacity: 3,
+      seated: 2,
+      nicknames: ['J0', 'J1'],
+      totalRounds: 1,
+      currentRound: 1,
+      rules: { mode: 'ten_cards', teamMode: false, turnTimeoutMs: 30000, spectatorMode: 'public', winCondition: { type: 'rounds' }, tieBreaker: 'card_points' },
+      status: 'waiting',
+      createdAt: 10,
+    });
+    const serialized = JSON.stringify(buildLobbyEntry(waiting));
+    for (const secret of ['AS', '2H', 'sala1_p0', 'conta_0']) assert.ok(!serialized.includes(secret), secret);
+
+    assert.equal(buildLobbyEntry(room('cheia', { seated: 2 })).status, 'full');
+    assert.equal(buildLobbyEntry(room('jogando', { seated: 2, started: true })).status, 'playing');
+  });
+
+  test('lista só as salas públicas, da mais antiga para a mais nova', () => {
+    const rooms = [room('nova', { createdAt: 30 }), room('privada', { isPublic: false, createdAt: 1 }), room('velha', { createdAt: 10 })];
+    assert.deepEqual(listLobby(rooms).map(e => e.roomId), ['velha', 'nova']);
+  });
+
+  test('partida rápida escolhe a sala pública mais antiga aguardando, com as regras pedidas e vaga', () => {
+    const rooms = [
+      room('privada', { isPublic: false, createdAt: 1 }),
+      room('jogando', { started: true, createdAt: 2 }),
+      room('cheia', { seated: 2, createdAt: 3 }),
+      room('classica', { mode: 'classic', createdAt: 4 }),
+      room('tres', { capacity: 3, createdAt: 5 }),
+      room('dois', { createdAt: 6 }),
+      room('dois_nova', { createdAt: 7 }),
+    ];
+    assert.equal(findQuickMatchRoom(rooms, {})?.meta.id, 'classica');
+    assert.equal(findQuickMatchRoom(rooms, { mode: 'ten_cards' })?.meta.id, 'tres');
+    assert.equal(findQuickMatchRoom(rooms, { mode: 'ten_cards', capacity: 2 })?.meta.id, 'dois');
+    assert.equal(findQuickMatchRoom(rooms, { mode: 'classic', capacity: 3 }), undefined);
+
+    // Pelas entradas do lobby (salas de outras instâncias) a escolha é a mesma
+    const entries = rooms.filter(r => r.meta.isPublic).map(buildLobbyEntry);
+    for (const criteria of [{}, { mode: 'ten_cards' as const }, { mode: 'ten_cards' as const, capacity: 2 }, { mode: 'classic' as const, capacity: 3 }]) {
+      assert.equal(findQuickMatchEntry(entries, criteria)?.roomId, findQuickMatchRoom(rooms, criteria)?.meta.id);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createLogger, LogLevel, LogThreshold, parseLogLevel } from "../src/logger";
+
+// Logger que guarda as linhas em vez de escrever no console
+function capture(level?: LogThreshold) {
+  const lines: { level: LogLevel; record: Record<string, unknown> }[] = [];
+  const log = createLogger({ level, write: (lineLevel, line) => lines.push({ level: lineLevel, record: JSON.parse(line) }) });
+  return { log, lines };
+}
+
+describe('logger', () => {
+  test('uma linha JSON por registro, com os campos e o contexto do logger filho', () => {
+    const { log, lines } = capture();
+    const room = log.child({ scope: 'room', roomId: 'sala1' });
+    room.info('Match iniciado', { matchNumber: 2 });
+
+    assert.equal(lines.length, 1);
+    const { level, record } = lines[0];
+    assert.equal(level, 'info');
+    assert.equal(record.level, 'info');
+    assert.equal(record.msg, 'Match iniciado');
+    assert.equal(record.scope, 'room');
+    assert.equal(record.roomId, 'sala1');
+    assert.equal(record.matchNumber, 2);
+    assert.ok(!Number.isNaN(Date.parse(record.time as string)));
+  });
+
+  test('campos não sobrescrevem o nível nem a mensagem', () => {
+    const { log, lines } = capture();
+    log.info('Bot adicionado à sala', { level: 'smart', msg: 'outra' });
+    assert.deepEqual(Object.keys(lines[0].record).slice(0, 3), ['time', 'level', 'msg']);
+    assert.equal(lines[0].record.level, 'info');
+    assert.equal(lines[0].record.msg, 'Bot adicionado à sala');
+  });
+
+  test('registros abaixo do nível mínimo são descartados', () => {
+    const { log, lines } = capture('warn');
+    log.debug('vaza');
+    log.info('sala criada');
+    log.warn('payload inválido');
+    log.child({ roomId: 'sala1' }).error('falhou');
+    assert.deepEqual(lines.map(l => l.record.msg), ['payload inválido', 'falhou']);
+  });
+
+  test('Error vira nome, mensagem e stack; campo circular não derruba o registro', () => {
+    const { log, lines } = capture();
+    log.error('Erro ao salvar sala', { error: new TypeError('disco cheio') });
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    log.error('Erro estranho', { roomId: 'sala1', circular });
+
+    assert.deepEqual((lines[0].record.error as Record<string, unknown>).message, 'disco cheio');
+    assert.equal((lines[0].record.error as Record<string, unknown>).name, 'TypeError');
+    assert.equal(lines[1].record.msg, 'Erro estranho');
+    assert.equal(lines[1].record.unserializable, true);
+    assert.equal(lines[1].record.roomId, undefined);
+  });
+
+  test('LOG_LEVEL desconhecido ou ausente vale info', () => {
+    assert.equal(parseLogLevel(' DEBUG '), 'debug');
+    assert.equal(parseLogLevel('verbose'), 'info');
+    assert.equal(parseLogLevel(undefined), 'info');
+    assert.equal(parseLogLevel('toString'), 'info');
+  });
+
+  test('silent descarta todos os níveis', () => {
+    assert.equal(parseLogLevel('silent'), 'silent');
+    const { log, lines } = capture('silent');
+    log.error('Erro', { roomId: 'sala1' });
+    log.child({ scope: 'room' }).warn('Aviso');
+    assert.equal(lines.length, 0);
+  });
+});
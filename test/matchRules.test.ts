@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createGame } from "../src/gameLogic";
+import { evaluateMatchEnd, MAX_MATCH_HANDS, parseTieBreaker, parseWinCondition, recordHandResult } from "../src/matchRules";
+import { GameState, RoomMeta } from "../src/types";
+
+type SideTotals = { chips?: number; matchPoints?: number; handsWon?: number; score?: number };
+
+// Totais do match por jogador; `score` é a pontuação da mão que acabou de terminar
+function matchGame(players: SideTotals[], teamChips?: number[]): GameState {
+  const teamMode = !!teamChips;
+  return {
+    ...createGame('ten_cards', teamMode),
+    players: players.map((p, seat) => ({
+      id: `p${seat}`, nickname: `P${seat}`, hand: [], capturedCards: [], score: p.score ?? 0,
+      chips: p.chips ?? 0, matchPoints: p.matchPoints ?? 0, handsWon: p.handsWon ?? 0,
+      team: teamMode ? seat % 2 : undefined,
+    })),
+    teamChips,
+  };
+}
+
+function meta(extra: Partial<RoomMeta> = {}): RoomMeta {
+  return { id: 'sala', capacity: 4, ownerId: 'p0', isGameStarted: true, mode: 'ten_cards', totalRounds: 3, ...extra };
+}
+
+describe('fim do match', () => {
+  test('alvos são limitados e tipos desconhecidos viram rodadas', () => {
+    assert.deepEqual(parseWinCondition({ type: 'chips' }), { type: 'chips', target: 5 });
+    assert.deepEqual(parseWinCondition({ type: 'points', target: 99999 }), { type: 'points', target: 5000 });
+    assert.deepEqual(parseWinCondition({ type: 'best_of', target: 2.9 }), { type: 'best_of', target: 2 });
+    assert.deepEqual(parseWinCondition({ type: 'toString', target: 3 }), { type: 'rounds' });
+    assert.deepEqual(parseWinCondition(null), { type: 'rounds' });
+    assert.equal(parseTieBreaker('sudden_death'), 'sudden_death');
+    assert.equal(parseTieBreaker('moeda'), 'card_points');
+  });
+
+  test('rodadas: termina depois de totalRounds mãos, com mais fichas vencendo', () => {
+    const game = matchGame([{ chips: 1 }, { chips: 3 }]);
+    assert.deepEqual(evaluateMatchEnd(game, meta(), 2), { over: false });
+    assert.deepEqual(evaluateMatchEnd(game, meta(), 3), { over: true, condition: 'rounds', winnerSides: [1] });
+  });
+
+  test('alvo de fichas e de pontos: o primeiro lado a chegar encerra', () => {
+    const chips = meta({ winCondition: { type: 'chips', target: 5 } });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ chips: 4 }, { chips: 2 }]), chips, 8), { over: false });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ chips: 2 }, { chips: 6 }]), chips, 9), { over: true, condition: 'chips_target', winnerSides: [1] });
+
+    const points = meta({ winCondition: { type: 'points', target: 300 } });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ matchPoints: 299 }, { matchPoints: 250 }]), points, 4), { over: false });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ matchPoints: 310, chips: 0 }, { matchPoints: 250, chips: 4 }]), points, 5),
+      { over: true, condition: 'points_target', winnerSides: [0] });
+  });
+
+  test('melhor de N: maioria encerra antes; sem maioria, acaba nas N mãos', () => {
+    const bestOf = meta({ winCondition: { type: 'best_of', target: 3 } });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ handsWon: 1 }, { handsWon: 1 }]), bestOf, 2), { over: false });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ handsWon: 2 }, { handsWon: 0 }]), bestOf, 2), { over: true, condition: 'best_of', winnerSides: [0] });
+    // Três jogadores com uma mão cada: desempate pelos pontos de carta
+    const split = matchGame([{ handsWon: 1, matchPoints: 150 }, { handsWon: 1, matchPoints: 200 }, { handsWon: 1, matchPoints: 10 }]);
+    assert.deepEqual(evaluateMatchEnd(split, bestOf, 3), { over: true, condition: 'best_of', winnerSides: [1], tieBreak: 'card_points' });
+  });
+
+  test('teto de mãos encerra o que não terminaria, sem abrir desempate', () => {
+    const chips = meta({ winCondition: { type: 'chips', target: 50 }, tieBreaker: 'sudden_death' });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ chips: 3 }, { chips: 1 }]), chips, MAX_MATCH_HANDS - 1), { over: false });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ chips: 3 }, { chips: 1 }]), chips, MAX_MATCH_HANDS), { over: true, condition: 'hand_limit', winnerSides: [0] });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ chips: 2 }, { chips: 2 }]), chips, MAX_MATCH_HANDS),
+      { over: true, condition: 'hand_limit', winnerSides: [0, 1], tieBreak: 'shared' });
+  });
+
+  test('desempate: pontos de carta, vitória dividida ou mão extra entre os empatados', () => {
+    const tied = matchGame([{ chips: 3, matchPoints: 120 }, { chips: 3, matchPoints: 140 }, { chips: 1, matchPoints: 200 }]);
+    assert.deepEqual(evaluateMatchEnd(tied, meta(), 3), { over: true, condition: 'rounds', winnerSides: [1], tieBreak: 'card_points' });
+    assert.deepEqual(evaluateMatchEnd(tied, meta({ tieBreaker: 'shared' }), 3), { over: true, condition: 'rounds', winnerSides: [0, 1], tieBreak: 'shared' });
+    assert.deepEqual(evaluateMatchEnd(tied, meta({ tieBreaker: 'sudden_death' }), 3),
+      { over: false, suddenDeath: { sides: [0, 1], condition: 'rounds' } });
+
+    // Pontos de carta também empatados: vitória dividida
+    const fullTie = matchGame([{ chips: 2, matchPoints: 100 }, { chips: 2, matchPoints: 100 }]);
+    assert.deepEqual(evaluateMatchEnd(fullTie, meta(), 3), { over: true, condition: 'rounds', winnerSides: [0, 1], tieBreak: 'shared' });
+  });
+
+  test('mão de desempate só conta os lados empatados; novo empate joga outra', () => {
+    const suddenDeath = meta({ tieBreaker: 'sudden_death', suddenDeath: { sides: [0, 1], condition: 'chips_target' } });
+    // O terceiro jogador fez mais pontos na mão, mas não disputava o desempate
+    const decided = matchGame([{ chips: 5, score: 30 }, { chips: 5, score: 40 }, { chips: 2, score: 50 }]);
+    assert.deepEqual(evaluateMatchEnd(decided, suddenDeath, 4), { over: true, condition: 'chips_target', winnerSides: [1], tieBreak: 'sudden_death' });
+
+    const again = matchGame([{ chips: 5, score: 35 }, { chips: 5, score: 35 }, { chips: 2, score: 50 }]);
+    assert.deepEqual(evaluateMatchEnd(again, suddenDeath, 4), { over: false, suddenDeath: { sides: [0, 1], condition: 'chips_target' } });
+    assert.deepEqual(evaluateMatchEnd(again, suddenDeath, MAX_MATCH_HANDS),
+      { over: true, condition: 'hand_limit', winnerSides: [0, 1], tieBreak: 'shared' });
+
+    // Empate de três que vira de dois: só quem empatou de novo segue
+    const threeWay = meta({ suddenDeath: { sides: [0, 1, 2], condition: 'rounds' } });
+    assert.deepEqual(evaluateMatchEnd(matchGame([{ score: 40 }, { score: 10 }, { score: 40 }]), threeWay, 5),
+      { over: false, suddenDeath: { sides: [0, 2], condition: 'rounds' } });
+  });
+
+  test('duplas: o lado é a dupla, com as fichas da dupla', () => {
+    const game = matchGame([{}, {}, {}, {}], [2, 5]);
+    assert.deepEqual(evaluateMatchEnd(game, meta({ winCondition: { type: 'chips', target: 5 } }), 3), { over: true, condition: 'chips_target', winnerSides: [1] });
+  });
+
+  test('resultado da mão: pontos somam no match e a mão é de quem fez mais, sem empate', () => {
+    const game = recordHandResult(matchGame([{ score: 70, matchPoints: 10 }, { score: 50 }]));
+    assert.deepEqual(game.players.map(p => [p.matchPoints, p.handsWon]), [[80, 1], [50, 0]]);
+    const tied = recordHandResult(matchGame([{ score: 60 }, { score: 60 }]));
+    assert.deepEqual(tied.players.map(p => p.handsWon), [0, 0]);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createMetricsRegistry } from "../src/metrics";
+
+describe('métricas', () => {
+  test('contador soma por rótulo e começa zerado', () => {
+    const registry = createMetricsRegistry();
+    const rejected = registry.counter('bisca_rejected_plays_total', 'Jogadas recusadas');
+    assert.equal(registry.render(), [
+      '# HELP bisca_rejected_plays_total Jogadas recusadas',
+      '# TYPE bisca_rejected_plays_total counter',
+      'bisca_rejected_plays_total 0',
+      '',
+    ].join('\n'));
+
+    rejected.inc({ reason: 'not_your_turn' });
+    rejected.inc({ reason: 'must_follow_suit' });
+    rejected.inc({ reason: 'not_your_turn' }, 2);
+    const lines = registry.render().split('\n');
+    assert.ok(lines.includes('bisca_rejected_plays_total{reason="not_your_turn"} 3'));
+    assert.ok(lines.includes('bisca_rejected_plays_total{reason="must_follow_suit"} 1'));
+    assert.ok(!lines.includes('bisca_rejected_plays_total 0'));
+    assert.throws(() => rejected.inc({}, -1));
+  });
+
+  test('gauge lê o valor na hora da coleta; rótulos são escapados', () => {
+    const registry = createMetricsRegistry();
+    let rooms = 1;
+    registry.gauge('bisca_active_rooms', 'Salas abertas', () => rooms);
+    registry.gauge('bisca_test', 'Rótulos', () => [{ labels: { motivo: 'aspas " e \\ barra' }, value: 1 }]);
+    rooms = 3;
+    const lines = registry.render().split('\n');
+    assert.ok(lines.includes('bisca_active_rooms 3'));
+    assert.ok(lines.includes('bisca_test{motivo="aspas \\" e \\\\ barra"} 1'));
+    assert.throws(() => registry.gauge('bisca_active_rooms', 'De novo', () => 0));
+  });
+
+  test('histograma acumula os buckets, a soma e a contagem', () => {
+    const registry = createMetricsRegistry();
+    const duration = registry.histogram('bisca_hand_duration_seconds', 'Duração das mãos', [60, 30]);
+    duration.observe(20);
+    duration.observe(45);
+    duration.observe(90);
+    const lines = registry.render().split('\n');
+    assert.deepEqual(lines.filter(l => l.startsWith('bisca_hand_duration_seconds')), [
+      'bisca_hand_duration_seconds_bucket{le="30"} 1',
+      'bisca_hand_duration_seconds_bucket{le="60"} 2',
+      'bisca_hand_duration_seconds_bucket{le="+Inf"} 3',
+      'bisca_hand_duration_seconds_sum 155',
+      'bisca_hand_duration_seconds_count 3',
+    ]);
+    assert.deepEqual(duration.totals(), { sum: 155, count: 3 });
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createGame, startGame } from "../src/gameLogic";
+import { buildGameView, buildSpectatorView, toPublicPlayers } from "../src/projection";
+import { GameState } from "../src/types";
+
+// Mão distribuída para três jogadores, com cartas capturadas para conferir o que vaza
+function dealtGame(): GameState {
+  const game = createGame('ten_cards');
+  game.players = ['Ana', 'Bia', 'Caio'].map((nickname, seat) => ({ id: `p${seat}`, nickname, hand: [], score: 0, capturedCards: [], chips: 0, connected: true }));
+  const dealt = startGame(game);
+  dealt.players[1].capturedCards = ['AS', '7S'];
+  return dealt;
+}
+
+describe('visões do jogo', () => {
+  test('jogador vê só a própria mão; dos adversários, só as contagens', () => {
+    const game = dealtGame();
+    const view = buildGameView(game, 'p0');
+
+    assert.deepEqual(view.players[0].hand, game.players[0].hand);
+    for (const opponent of view.players.slice(1)) {
+      assert.equal(opponent.hand, undefined);
+      assert.equal(opponent.capturedCards, undefined);
+    }
+    assert.equal(view.players[1].handCount, game.players[1].hand.length);
+    assert.equal(view.players[1].capturedCount, 2);
+    // Nenhuma carta de outra mão aparece em lugar algum da visão
+    const raw = JSON.stringify(view);
+    for (const card of [...game.players[1].hand, ...game.players[2].hand]) {
+      assert.ok(!raw.includes(`"${card}"`) || game.table.some(t => t.card === card) || card === game.trumpCard, `${card} vazou`);
+    }
+  });
+
+  test('baralho, semente e ordem de compra não saem na visão', () => {
+    const game = dealtGame();
+    const view = buildGameView(game, 'p0') as unknown as Record<string, unknown>;
+    assert.equal(view.deck, undefined);
+    assert.equal(view.seed, undefined);
+    assert.equal(view.deckCount, game.deck.length);
+    assert.equal(view.seedHash, game.seedHash);
+  });
+
+  test('espectador sem atraso vê a mesa pública; com atraso, as mãos abertas', () => {
+    const game = dealtGame();
+    const live = buildSpectatorView(game, false);
+    assert.equal(live.viewerId, null);
+    assert.deepEqual(live.legalMoves, []);
+    assert.ok(live.players.every(p => p.hand === undefined && p.capturedCards === undefined));
+
+    const delayed = buildSpectatorView(game, true);
+    assert.deepEqual(delayed.players.map(p => p.hand), game.players.map(p => p.hand));
+    assert.deepEqual(delayed.players[1].capturedCards, ['AS', '7S']);
+    // As mãos da visão são cópias: mexer nelas não altera o jogo
+    delayed.players[0].hand!.pop();
+    assert.equal(game.players[0].hand.length, 10);
+  });
+
+  test('lista pública de jogadores não carrega cartas', () => {
+    const players = toPublicPlayers(dealtGame().players);
+    assert.ok(players.every(p => !('hand' in p) && !('capturedCards' in p)));
+    assert.deepEqual(players.map(p => p.handCount), [10, 10, 10]);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createGuestAccount, upgradeAccount } from "../src/accounts";
+import { computeRatingDeltas, getAccountRatings, getLeaderboard, getRatedMatch, INITIAL_RATING, ladderKey, recordMatchRatings } from "../src/ratings";
+
+let counter = 0;
+
+async function registered(displayName: string): Promise<string> {
+  const guest = createGuestAccount(displayName);
+  const result = await upgradeAccount(guest.token, `rating_${++counter}`, 'segredo1');
+  assert.ok(result.ok);
+  return guest.id;
+}
+
+describe('ratings', () => {
+  test('Elo: ratings iguais trocam metade do fator K; o favorito ganha menos', () => {
+    assert.deepEqual(computeRatingDeltas([1500, 1500], [{ accountId: 'a', chips: 3, won: true }, { accountId: 'b', chips: 0, won: false }]), [16, -16]);
+    const [favorite, underdog] = computeRatingDeltas([1800, 1400], [{ accountId: 'a', chips: 3, won: true }, { accountId: 'b', chips: 0, won: false }]);
+    assert.ok(favorite > 0 && favorite < 16);
+    assert.equal(underdog, -favorite);
+  });
+
+  test('multi-jogador: cada par é um confronto; entre perdedores, decide quem tem mais fichas', () => {
+    const deltas = computeRatingDeltas([1500, 1500, 1500], [
+      { accountId: 'a', chips: 5, won: true },
+      { accountId: 'b', chips: 2, won: false },
+      { accountId: 'c', chips: 1, won: false },
+    ]);
+    assert.deepEqual(deltas, [16, 0, -16]);
+    // Empate de fichas entre perdedores vale meio ponto para cada
+    assert.deepEqual(computeRatingDeltas([1500, 1500, 1500], [
+      { accountId: 'a', chips: 5, won: true },
+      { accountId: 'b', chips: 1, won: false },
+      { accountId: 'c', chips: 1, won: false },
+    ]), [16, -8, -8]);
+  });
+
+  test('duplas: parceiros não se enfrentam', () => {
+    const deltas = computeRatingDeltas([1500, 1500, 1500, 1500], [
+      { accountId: 'a', chips: 4, won: true, team: 0 },
+      { accountId: 'b', chips: 0, won: false, team: 1 },
+      { accountId: 'c', chips: 4, won: true, team: 0 },
+      { accountId: 'd', chips: 0, won: false, team: 1 },
+    ]);
+    assert.deepEqual(deltas, [16, -16, 16, -16]);
+  });
+
+  test('match avaliado atualiza a escada, o histórico e o ranking', async () => {
+    const ana = await registered('Ana');
+    const bia = await registered('Bia');
+    const guest = createGuestAccount('Convidado').id;
+    const ladder = ladderKey(3, 'classic', false);
+    assert.equal(ladder, '3p_classic');
+
+    const match = recordMatchRatings(ladder, 'sala1', 1, [
+      { accountId: bia, chips: 1, won: false },
+      { accountId: ana, chips: 4, won: true },
+      { accountId: guest, chips: 0, won: false },
+    ]);
+    assert.ok(match);
+    // Convidado fica fora; as mudanças saem em ordem de colocação
+    assert.deepEqual(match.changes.map(c => [c.displayName, c.place, c.before, c.after, c.delta]), [
+      ['Ana', 1, INITIAL_RATING, INITIAL_RATING + 16, 16],
+      ['Bia', 2, INITIAL_RATING, INITIAL_RATING - 16, -16],
+    ]);
+    assert.equal(getRatedMatch(match.id), match);
+
+    recordMatchRatings(ladder, 'sala1', 2, [{ accountId: ana, chips: 0, won: false }, { accountId: bia, chips: 3, won: true }]);
+    const { ratings, history } = getAccountRatings(ana);
+    assert.deepEqual(ratings.map(r => [r.ladder, r.matches, r.wins]), [[ladder, 2, 1]]);
+    assert.equal(history.length, 2);
+
+    // Bia venceu a revanche como azarona e ganhou mais do que tinha perdido
+    const board = getLeaderboard(ladder, 1, 1);
+    assert.ok(board);
+    assert.equal(board.total, 2);
+    assert.deepEqual(board.entries.map(e => [e.rank, e.displayName, e.rating]), [[1, 'Bia', 1501]]);
+    assert.deepEqual(getLeaderboard(ladder, 2, 1)?.entries.map(e => [e.rank, e.displayName, e.rating]), [[2, 'Ana', 1499]]);
+    assert.equal(getLeaderboard('nao-existe', 1, 20), undefined);
+  });
+
+  test('sem dois adversários registrados o match não é avaliado', async () => {
+    const ana = await registered('Ana');
+    const ladder = ladderKey(2, 'classic', false);
+    assert.equal(recordMatchRatings(ladder, 'sala2', 1, [{ accountId: ana, chips: 3, won: true }, { accountId: createGuestAccount().id, chips: 0, won: false }]), undefined);
+    // Só parceiros registrados: ninguém para enfrentar
+    const bia = await registered('Bia');
+    assert.equal(recordMatchRatings(ladderKey(4, 'classic', true), 'sala3', 1, [
+      { accountId: ana, chips: 3, won: true, team: 0 },
+      { accountId: bia, chips: 3, won: true, team: 0 },
+    ]), undefined);
+    assert.deepEqual(getAccountRatings(ana).ratings, []);
+  });
+});
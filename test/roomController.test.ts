@@ -0,0 +1,387 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createGame, getLegalCards } from "../src/gameLogic";
+import { metrics } from "../src/metrics";
+import { AWAY_AFTER_TIMEOUTS, createRoomController, RoomBroadcast, RoomController, TRICK_RESOLVE_DELAY_MS } from "../src/roomController";
+import { Room } from "../src/types";
+
+// Sala (por padrão de dois jogadores) com relógio manual: nada roda até o teste chamar flush().
+// flush(ms) roda só o que foi agendado com aquele atraso (a vaza ou o tempo da vez).
+function setup(options: { totalRounds?: number; nicknames?: string[]; turnTimeoutMs?: number } = {}) {
+  const nicknames = options.nicknames ?? ['Ana', 'Bia'];
+  const game = createGame('ten_cards');
+  game.players = nicknames.map((nickname, seat) => ({ id: `p${seat}`, nickname, hand: [], score: 0, capturedCards: [], chips: 0, connected: true }));
+  const room: Room = {
+    meta: {
+      id: 'sala', capacity: nicknames.length, ownerId: 'p0', isGameStarted: false, mode: 'ten_cards', totalRounds: options.totalRounds ?? 1, currentRound: 1,
+      turnTimeoutMs: options.turnTimeoutMs,
+    },
+    game,
+  };
+  const events: RoomBroadcast[] = [];
+  const phases: string[] = [];
+  const logs: string[] = [];
+  const clock = { now: 1000 };
+  let pending: { callback: () => void; ms: number; cancelled: boolean }[] = [];
+  const controller = createRoomController(room, {
+    broadcast: (...message) => events.push(message),
+    stateChanged: () => {},
+    playersChanged: () => {},
+    log: text => logs.push(text),
+    phaseChanged: phase => phases.push(phase),
+    schedule: (callback, ms) => {
+      const task = { callback, ms, cancelled: false };
+      pending.push(task);
+      return () => { task.cancelled = true; };
+    },
+    now: () => clock.now,
+  });
+  const flush = (ms?: number) => {
+    const tasks = pending.filter(t => ms === undefined || t.ms === ms);
+    pending = pending.filter(t => !tasks.includes(t));
+    tasks.filter(t => !t.cancelled).forEach(t => t.callback());
+  };
+  const names = () => events.map(([event]) => event);
+  return { room, controller, events, phases, logs, clock, flush, names, pendingCount: () => pending.filter(t => !t.cancelled).length };
+}
+
+// Quem tem a vez joga a primeira carta legal
+function playNext(room: Room, controller: RoomController) {
+  const current = room.game.players[room.game.turn];
+  const result = controller.play(current.id, getLegalCards(room.game, current.id)[0]);
+  assert.deepEqual(result, { ok: true });
+}
+
+// Joga e recolhe vazas até o match terminar
+function playMatch(room: Room, controller: RoomController, flush: () => void) {
+  for (let guard = 0; controller.phase !== 'match_finished'; guard++) {
+    assert.ok(guard < 500, 'match não terminou');
+    if (controller.phase === 'trick_resolving') flush();
+    else playNext(room, controller);
+  }
+}
+
+// Valor atual de bisca_games_finished_total com o motivo dado
+function finishedGames(reason: string): number {
+  const line = metrics.render().split('\n').find(l => l.startsWith(`bisca_games_finished_total{reason="${reason}"}`));
+  return line ? Number(line.split(' ')[1]) : 0;
+}
+
+describe('RoomController', () => {
+  test('lobby aceita start e recusa jogadas; segundo start é recusado', () => {
+    const { room, controller, phases, names } = setup();
+    assert.equal(controller.phase, 'lobby');
+    assert.deepEqual(controller.play('p0', 'AS'), { ok: false, code: 'game_not_started', message: 'O jogo não começou' });
+
+    assert.deepEqual(controller.start(), { ok: true });
+    assert.equal(controller.phase, 'playing');
+    assert.deepEqual(phases, ['dealing', 'playing']);
+    assert.ok(room.meta.isGameStarted);
+    assert.ok(room.game.players.every(p => p.hand.length === 10));
+    assert.ok(names().includes('gameStarted'));
+    assert.equal(controller.histories.length, 1);
+
+    assert.deepEqual(controller.start(), { ok: false, code: 'game_already_started', message: 'Jogo já iniciado' });
+    assert.equal(controller.histories.length, 1);
+  });
+
+  test('start sem jogadores suficientes é recusado', () => {
+    const { room, controller } = setup();
+    room.game.players.pop();
+    assert.deepEqual(controller.start(), { ok: false, code: 'cannot_start', message: 'Número de jogadores inválido' });
+    assert.equal(controller.phase, 'lobby');
+  });
+
+  test('mesa cheia espera a vaza ser recolhida e recusa outra jogada', () => {
+    const { room, controller, flush, names, pendingCount } = setup();
+    controller.start();
+    playNext(room, controller);
+    playNext(room, controller);
+    assert.equal(controller.phase, 'trick_resolving');
+    assert.equal(pendingCount(), 1);
+
+    const next = room.game.players[room.game.turn];
+    assert.deepEqual(controller.play(next.id, next.hand[0]), { ok: false, code: 'trick_resolving', message: 'Aguarde a vaza ser recolhida' });
+    assert.equal(room.game.table.length, 2);
+
+    flush();
+    assert.equal(controller.phase, 'playing');
+    assert.equal(room.game.table.length, 0);
+    assert.equal(names().filter(n => n === 'trickWon').length, 1);
+    assert.equal(room.game.players[room.game.turn].id, room.game.lastTrickWinnerId);
+  });
+
+  test('match termina, aguarda revanche e recomeça quando todos votam', () => {
+    const { room, controller, flush, names } = setup({ totalRounds: 2 });
+    controller.start();
+    playMatch(room, controller, flush);
+
+    assert.equal(names().filter(n => n === 'roundFinished').length, 2);
+    assert.equal(names().filter(n => n === 'matchFinished').length, 1);
+    assert.ok(room.meta.awaitingRematch);
+    assert.equal(room.meta.isGameStarted, false);
+    assert.equal(controller.histories.filter(h => h.finishedAt).length, 2);
+
+    assert.deepEqual(controller.play('p0', 'AS').ok, false);
+    // O dono não pula a votação com startRoom
+    assert.deepEqual(controller.start(), { ok: false, code: 'rematch_pending', message: 'A revanche começa quando todos aceitarem' });
+    assert.equal(controller.phase, 'match_finished');
+    assert.equal(room.meta.matchNumber, 1);
+    assert.deepEqual(controller.voteRematch('p0', true), { ok: true });
+    assert.deepEqual(controller.start().ok, false);
+    assert.equal(controller.phase, 'match_finished');
+    assert.deepEqual(controller.voteRematch('p1', true), { ok: true });
+    assert.equal(controller.phase, 'playing');
+    assert.equal(room.meta.matchNumber, 2);
+    assert.deepEqual(controller.voteRematch('p0', true), { ok: false, code: 'no_rematch_vote', message: 'Nenhuma revanche em votação' });
+  });
+
+  test('interromper volta ao lobby, cancela a vaza pendente e descarta a mão do histórico', () => {
+    const { room, controller, pendingCount } = setup();
+    assert.deepEqual(controller.abort(false), { ok: false, code: 'game_not_started', message: 'Nenhuma partida em andamento' });
+    controller.start();
+    playNext(room, controller);
+    playNext(room, controller);
+    assert.equal(pendingCount(), 1);
+
+    assert.deepEqual(controller.abort(true), { ok: true });
+    assert.equal(controller.phase, 'lobby');
+    assert.equal(pendingCount(), 0);
+    assert.equal(controller.histories.length, 0);
+    assert.ok(room.game.players.every(p => p.hand.length === 0 && p.chips === 0));
+    assert.deepEqual(controller.start(), { ok: true });
+  });
+
+  test('toda interrupção de partida iniciada conta como aborted', () => {
+    const { controller } = setup();
+    const aborted = finishedGames('aborted');
+    controller.start();
+    // Mesa sem adversário (o index chama returnToLobby)
+    controller.returnToLobby(false);
+    assert.equal(controller.phase, 'lobby');
+    assert.equal(finishedGames('aborted'), aborted + 1);
+
+    controller.start();
+    controller.kick('p1');
+    assert.equal(finishedGames('aborted'), aborted + 2);
+    // Sem partida em andamento nada é contado
+    controller.returnToLobby(false);
+    assert.equal(finishedGames('aborted'), aborted + 2);
+  });
+
+  test('match que termina normalmente não conta como aborted', () => {
+    const { room, controller, flush } = setup();
+    const aborted = finishedGames('aborted');
+    const completed = finishedGames('completed');
+    controller.start();
+    playMatch(room, controller, flush);
+    assert.equal(finishedGames('completed'), completed + 1);
+    assert.equal(finishedGames('aborted'), aborted);
+  });
+
+  test('expulsar no lobby só libera o assento', () => {
+    const { room, controller, names } = setup();
+    assert.deepEqual(controller.kick('p9'), { ok: false, code: 'invalid_player', message: 'Jogador inválido' });
+    assert.deepEqual(controller.kick('p1'), { ok: true });
+    assert.deepEqual(room.game.players.map(p => p.id), ['p0']);
+    assert.equal(controller.phase, 'lobby');
+    assert.ok(!names().includes('matchAborted'));
+  });
+
+  test('expulsar na partida tira o jogador (sem bot no lugar) e volta ao lobby com as fichas', () => {
+    const { room, controller, names, pendingCount } = setup();
+    room.game.players.push({ id: 'p2', nickname: 'Caio', hand: [], score: 0, capturedCards: [], chips: 0, connected: true });
+    room.meta.capacity = 3;
+    controller.start();
+    playNext(room, controller);
+    playNext(room, controller);
+    playNext(room, controller);
+    assert.equal(pendingCount(), 1);
+    room.game.players = room.game.players.map(p => ({ ...p, chips: p.id === 'p0' ? 2 : p.chips }));
+
+    assert.deepEqual(controller.kick('p1'), { ok: true });
+    assert.equal(controller.phase, 'lobby');
+    assert.equal(pendingCount(), 0);
+    assert.deepEqual(room.game.players.map(p => p.id), ['p0', 'p2']);
+    assert.ok(room.game.players.every(p => !p.isBot && p.hand.length === 0));
+    assert.equal(room.game.players[0].chips, 2);
+    assert.equal(names().filter(n => n === 'matchAborted').length, 1);
+    assert.equal(controller.histories.length, 0);
+    // Quem ficou pode começar outra partida
+    assert.deepEqual(controller.start(), { ok: true });
+  });
+
+  test('expulsar quem faltava votar fecha a revanche', () => {
+    const { room, controller, flush } = setup();
+    room.game.players.push({ id: 'p2', nickname: 'Caio', hand: [], score: 0, capturedCards: [], chips: 0, connected: true });
+    room.meta.capacity = 3;
+    controller.start();
+    playMatch(room, controller, flush);
+    controller.voteRematch('p0', true);
+    controller.voteRematch('p1', true);
+    assert.equal(controller.phase, 'match_finished');
+    assert.deepEqual(controller.kick('p2'), { ok: true });
+    assert.equal(controller.phase, 'playing');
+    assert.equal(room.game.players.length, 2);
+  });
+
+  test('sala restaurada com a mesa cheia retoma a resolução da vaza', () => {
+    const first = setup();
+    first.controller.start();
+    playNext(first.room, first.controller);
+    playNext(first.room, first.controller);
+
+    const restored = createRoomController(first.room, {
+      broadcast: () => {},
+      stateChanged: () => {},
+      playersChanged: () => {},
+      log: () => {},
+      schedule: callback => { callback(); return () => {}; },
+    }, first.controller.histories);
+    assert.equal(restored.phase, 'trick_resolving');
+    restored.resume();
+    assert.equal(restored.phase, 'playing');
+    assert.equal(first.room.game.table.length, 0);
+  });
+});
+
+describe('RoomController: tempo da vez e ausência', () => {
+  const TIMEOUT_MS = 30000;
+  const player = (room: Room, id: string) => room.game.players.find(p => p.id === id)!;
+
+  // Os outros jogam a primeira carta legal; a vez de `playerId` é deixada esgotar até ele ficar ausente
+  function missTurnsUntilAway({ room, controller, flush }: ReturnType<typeof setup>, playerId: string) {
+    for (let guard = 0; !player(room, playerId).away; guard++) {
+      assert.ok(guard < 100, 'jogador não ficou ausente');
+      if (controller.phase === 'trick_resolving') flush(TRICK_RESOLVE_DELAY_MS);
+      else if (room.game.players[room.game.turn].id === playerId) flush(TIMEOUT_MS);
+      else playNext(room, controller);
+    }
+  }
+
+  // Avança até ser a vez de `playerId`
+  function playUntilTurnOf({ room, controller, flush }: ReturnType<typeof setup>, playerId: string) {
+    for (let guard = 0; controller.phase !== 'playing' || room.game.players[room.game.turn].id !== playerId; guard++) {
+      assert.ok(guard < 100, 'vez não chegou');
+      if (controller.phase === 'trick_resolving') flush(TRICK_RESOLVE_DELAY_MS);
+      else playNext(room, controller);
+    }
+  }
+
+  test('cada vez ganha um prazo próprio; mesa cheia, lobby e sala sem tempo não têm prazo', () => {
+    const ctx = setup({ turnTimeoutMs: TIMEOUT_MS });
+    const { room, controller, clock, pendingCount } = ctx;
+    controller.start();
+    assert.equal(room.game.turnDeadline, 1000 + TIMEOUT_MS);
+    assert.equal(pendingCount(), 1);
+
+    clock.now = 5000;
+    playNext(room, controller);
+    assert.equal(room.game.turnDeadline, 5000 + TIMEOUT_MS);
+    assert.equal(pendingCount(), 1);
+
+    playNext(room, controller);
+    assert.equal(controller.phase, 'trick_resolving');
+    assert.equal(room.game.turnDeadline, undefined);
+    // Só a vaza fica agendada
+    assert.equal(pendingCount(), 1);
+    ctx.flush(TRICK_RESOLVE_DELAY_MS);
+    assert.equal(room.game.turnDeadline, 5000 + TIMEOUT_MS);
+
+    controller.abort(false);
+    assert.equal(room.game.turnDeadline, undefined);
+    assert.equal(pendingCount(), 0);
+
+    const untimed = setup();
+    untimed.controller.start();
+    assert.equal(untimed.room.game.turnDeadline, undefined);
+    assert.equal(untimed.pendingCount(), 0);
+  });
+
+  test('tempo esgotado joga uma carta válida e conta a falta; jogar sozinho zera', () => {
+    const ctx = setup({ turnTimeoutMs: TIMEOUT_MS });
+    const { room, controller, logs, flush } = ctx;
+    controller.start();
+    const current = room.game.players[room.game.turn];
+    const legal = getLegalCards(room.game, current.id);
+
+    flush(TIMEOUT_MS);
+    assert.equal(room.game.table.length, 1);
+    assert.equal(room.game.table[0].playerId, current.id);
+    assert.ok(legal.includes(room.game.table[0].card));
+    assert.equal(player(room, current.id).missedTurns, 1);
+    assert.equal(player(room, current.id).away, false);
+    assert.ok(logs.includes(`Tempo esgotado para ${current.nickname}. Carta jogada automaticamente.`));
+
+    playUntilTurnOf(ctx, current.id);
+    playNext(room, controller);
+    assert.equal(player(room, current.id).missedTurns, 0);
+    assert.ok(!logs.includes(`${current.nickname} voltou.`));
+  });
+
+  test(`${AWAY_AFTER_TIMEOUTS} tempos esgotados seguidos marcam ausente, uma vez só; voltar a jogar tira a marca`, () => {
+    const ctx = setup({ turnTimeoutMs: TIMEOUT_MS });
+    const { room, controller, events, logs, names } = ctx;
+    controller.start();
+    missTurnsUntilAway(ctx, 'p0');
+    assert.equal(player(room, 'p0').missedTurns, AWAY_AFTER_TIMEOUTS);
+    assert.deepEqual(events.filter(([event]) => event === 'playerAway'), [['playerAway', { playerId: 'p0', nickname: 'Ana', missedTurns: AWAY_AFTER_TIMEOUTS }]]);
+
+    // Mais um tempo esgotado conta a falta sem avisar de novo
+    playUntilTurnOf(ctx, 'p0');
+    ctx.flush(TIMEOUT_MS);
+    assert.equal(player(room, 'p0').missedTurns, AWAY_AFTER_TIMEOUTS + 1);
+    assert.equal(names().filter(n => n === 'playerAway').length, 1);
+
+    playUntilTurnOf(ctx, 'p0');
+    playNext(room, controller);
+    assert.equal(player(room, 'p0').away, false);
+    assert.equal(player(room, 'p0').missedTurns, 0);
+    assert.ok(logs.includes('Ana voltou.'));
+  });
+
+  test('mesa vota para substituir o ausente por bot; o bot joga sem prazo', () => {
+    const ctx = setup({ turnTimeoutMs: TIMEOUT_MS, nicknames: ['Ana', 'Bia', 'Caio'] });
+    const { room, controller, events } = ctx;
+    controller.start();
+    missTurnsUntilAway(ctx, 'p0');
+
+    const notAway = { ok: false, code: 'not_away', message: 'Jogador não está ausente' };
+    assert.deepEqual(controller.voteAway('p0', 'p1', 'replace'), notAway);
+    assert.deepEqual(controller.voteAway('p0', 'p0', 'replace'), notAway);
+
+    // Maioria de Bia e Caio: os dois votos
+    assert.deepEqual(controller.voteAway('p1', 'p0', 'replace'), { ok: true });
+    assert.deepEqual(events[events.length - 1], ['awayVoteUpdate', { targetPlayerId: 'p0', action: 'replace', votes: 1, needed: 2 }]);
+    assert.deepEqual(controller.voteAway('p1', 'p0', 'replace'), { ok: true });
+    assert.deepEqual(controller.voteAway('p2', 'p0', 'replace'), { ok: true, decided: 'replace' });
+
+    controller.replaceWithBot('p0');
+    assert.equal(player(room, 'p0').isBot, true);
+    assert.equal(player(room, 'p0').away, false);
+    assert.deepEqual(controller.voteAway('p1', 'p0', 'replace'), notAway);
+    playUntilTurnOf(ctx, 'p0');
+    assert.equal(room.game.turnDeadline, undefined);
+  });
+
+  test('mudar a ação recomeça a votação; desconectados não contam e voltar a jogar anula os votos', () => {
+    const ctx = setup({ turnTimeoutMs: TIMEOUT_MS, nicknames: ['Ana', 'Bia', 'Caio'] });
+    const { room, controller, events } = ctx;
+    controller.start();
+    missTurnsUntilAway(ctx, 'p0');
+
+    controller.voteAway('p1', 'p0', 'replace');
+    assert.deepEqual(controller.voteAway('p2', 'p0', 'kick'), { ok: true });
+    assert.deepEqual(events[events.length - 1], ['awayVoteUpdate', { targetPlayerId: 'p0', action: 'kick', votes: 1, needed: 2 }]);
+
+    // Ana volta antes da maioria: os votos somem
+    playUntilTurnOf(ctx, 'p0');
+    playNext(room, controller);
+    assert.deepEqual(controller.voteAway('p1', 'p0', 'kick').ok, false);
+
+    missTurnsUntilAway(ctx, 'p0');
+    room.game.players = room.game.players.map(p => p.id === 'p2' ? { ...p, connected: false } : p);
+    assert.deepEqual(controller.voteAway('p1', 'p0', 'kick'), { ok: true, decided: 'kick' });
+    assert.deepEqual(events[events.length - 1], ['awayVoteUpdate', { targetPlayerId: 'p0', action: 'kick', votes: 1, needed: 1 }]);
+  });
+});
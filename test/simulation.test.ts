@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createDeck, createGame, getCardPoints, getLegalCards, isHandOver, playCard, resolveTrick, startGame } from "../src/gameLogic";
+import { createRng, Rng } from "../src/rng";
+import { GameMode, GameState } from "../src/types";
+
+// Mãos aleatórias jogadas até o fim só com cartas legais; SIM_GAMES muda a quantidade
+const GAMES = Number(process.env.SIM_GAMES) || 2000;
+const TOTAL_POINTS = createDeck().reduce((sum, card) => sum + getCardPoints(card), 0);
+
+// Toda carta da mão está em exatamente um lugar: mão, mesa, baralho ou capturadas
+function allCards(game: GameState): string[] {
+  return [
+    ...game.players.flatMap(p => [...p.hand, ...p.capturedCards]),
+    ...game.table.map(t => t.card),
+    ...game.deck,
+  ];
+}
+
+function assertNoDuplicates(game: GameState, label: string) {
+  const cards = allCards(game);
+  assert.equal(new Set(cards).size, cards.length, `${label}: carta duplicada`);
+}
+
+function pick<T>(items: T[], rng: Rng): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+// Joga uma mão inteira com escolhas aleatórias e confere as invariantes a cada carta
+function simulateHand(seed: string): void {
+  const rng = createRng(`sim:${seed}`);
+  const mode: GameMode = rng() < 0.5 ? 'classic' : 'ten_cards';
+  const players = 2 + Math.floor(rng() * 3);
+  const teamMode = players === 4 && rng() < 0.5;
+  const table = createGame(mode, teamMode);
+  table.players = Array.from({ length: players }, (_, seat) => ({ id: `p${seat}`, nickname: `P${seat}`, hand: [], score: 0, capturedCards: [], chips: 0 }));
+  let game = startGame(table, seed);
+  const label = `${seed} (${mode}, ${players} jogadores${teamMode ? ', duplas' : ''})`;
+
+  // Com 10 cartas e menos de 4 jogadores sobra baralho fora do jogo
+  const inPlay = mode === 'classic' ? allCards(game) : game.players.flatMap(p => p.hand);
+  const dealtPoints = inPlay.reduce((sum, card) => sum + getCardPoints(card), 0);
+  assertNoDuplicates(game, label);
+
+  let plays = 0;
+  // Sem cartas na mão a última vaza ainda está na mesa esperando ser recolhida
+  while (!isHandOver(game) || game.table.length > 0) {
+    assert.ok(plays++ < 200, `${label}: mão não terminou`);
+    if (game.table.length === game.players.length) {
+      game = resolveTrick(game);
+    } else {
+      const current = game.players[game.turn];
+      const legal = getLegalCards(game, current.id);
+      assert.ok(legal.length > 0, `${label}: ${current.id} sem jogada legal`);
+      const next = playCard(game, current.id, pick(legal, rng));
+      assert.notEqual(next, game, `${label}: jogada legal recusada`);
+      game = next;
+    }
+    assertNoDuplicates(game, label);
+  }
+
+  assert.ok(game.players.every(p => p.hand.length === 0), `${label}: mão não vazia no fim`);
+  assert.deepEqual(game.table, [], `${label}: mesa não vazia no fim`);
+  assert.deepEqual(game.deck.filter(c => inPlay.includes(c)), [], `${label}: cartas do jogo no baralho`);
+  const captured = game.players.flatMap(p => p.capturedCards);
+  assert.deepEqual([...captured].sort(), [...inPlay].sort(), `${label}: capturadas diferentes das distribuídas`);
+  const scored = game.players.reduce((sum, p) => sum + p.score, 0);
+  assert.equal(scored, dealtPoints, `${label}: pontos não batem com as cartas`);
+  if (mode === 'classic' || players === 4) assert.equal(scored, TOTAL_POINTS, `${label}: total diferente de ${TOTAL_POINTS}`);
+  assert.equal(game.tricks?.length, inPlay.length / players, `${label}: quantidade de vazas`);
+}
+
+test('o baralho vale 120 pontos', () => {
+  assert.equal(TOTAL_POINTS, 120);
+});
+
+test(`${GAMES} mãos aleatórias respeitam as invariantes`, () => {
+  for (let i = 0; i < GAMES; i++) simulateHand(`jogo-${i}`);
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+import { createGame } from "../src/gameLogic";
+import { createFileAccountStore, createFileRoomStore, createMemoryRoomStore, RoomStore, StoredRoom } from "../src/storage";
+import { Account } from "../src/types";
+
+// Já no formato que volta do JSON (campos undefined somem)
+function storedRoom(id: string, savedAt = 1): StoredRoom {
+  const game = createGame('classic');
+  game.players = [{ id: 'p0', nickname: 'Ana', hand: ['AS', '7H'], score: 11, capturedCards: ['2C'], chips: 3, connected: true }];
+  return JSON.parse(JSON.stringify({
+    meta: { id, capacity: 2, ownerId: 'p0', isGameStarted: true, mode: 'classic', totalRounds: 3, currentRound: 2 },
+    game,
+    logs: [{ ts: 1, text: 'Sala criada', type: 'system' }],
+    sessions: [{ token: `${id}.abc`, roomId: id, playerId: 'p0' }],
+    histories: [],
+    savedAt,
+  }));
+}
+
+// O mesmo contrato vale para a memória e para os arquivos
+async function roundTrip(store: RoomStore) {
+  await store.save(storedRoom('sala1'));
+  await store.save(storedRoom('sala2'));
+  await store.save(storedRoom('sala1', 2));
+  await store.delete('sala2');
+  await store.delete('nenhuma');
+  const loaded = await store.loadAll();
+  assert.deepEqual(loaded, [storedRoom('sala1', 2)]);
+}
+
+describe('armazenamento de salas', () => {
+  let dir: string;
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), 'bisca-storage-'));
+  });
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  test('memória: grava, sobrescreve, apaga e devolve cópias', async () => {
+    const store = createMemoryRoomStore();
+    await roundTrip(store);
+    const [first] = await store.loadAll();
+    first.game.players[0].hand.pop();
+    const [second] = await store.loadAll();
+    assert.deepEqual(second.game.players[0].hand, ['AS', '7H']);
+  });
+
+  test('arquivos: o estado sobrevive a uma nova instância do store', async () => {
+    const roomsDir = path.join(dir, 'rooms');
+    await roundTrip(createFileRoomStore(roomsDir));
+    assert.deepEqual(await createFileRoomStore(roomsDir).loadAll(), [storedRoom('sala1', 2)]);
+    // Escrita atômica: nenhum temporário fica para trás
+    assert.deepEqual(await fs.readdir(roomsDir), ['sala1.json']);
+  });
+
+  test('arquivos: gravações seguidas da mesma chave terminam na última', async () => {
+    const store = createFileRoomStore(path.join(dir, 'burst'));
+    await Promise.all([1, 2, 3, 4].map(savedAt => store.save(storedRoom('sala1', savedAt))));
+    assert.equal((await store.loadAll())[0].savedAt, 4);
+  });
+
+  test('arquivos: diretório ausente é vazio; arquivo ilegível é ignorado', async () => {
+    assert.deepEqual(await createFileRoomStore(path.join(dir, 'nada')).loadAll(), []);
+    const roomsDir = path.join(dir, 'broken');
+    const store = createFileRoomStore(roomsDir);
+    await store.save(storedRoom('ok'));
+    await fs.writeFile(path.join(roomsDir, 'ruim.json'), '{ nao é json');
+    assert.deepEqual((await store.loadAll()).map(r => r.meta.id), ['ok']);
+  });
+
+  test('contas: ids com caracteres especiais viram nomes de arquivo seguros', async () => {
+    const accountsDir = path.join(dir, 'accounts');
+    const account = { id: 'a/../b', token: 't', displayName: 'Ana', createdAt: 1 } as unknown as Account;
+    await createFileAccountStore(accountsDir).save(account);
+    assert.deepEqual(await fs.readdir(accountsDir), ['a%2F..%2Fb.json']);
+    assert.deepEqual(await createFileAccountStore(accountsDir).loadAll(), [account]);
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { clientEventSchemas } from "../src/events";
+import { number, object, optional, record, string } from "../src/validation";
+
+// Código do erro ou o valor aceito, para comparar em uma linha
+function parse<T>(schema: (value: unknown, path: string) => { ok: true; value: T } | { ok: false; error: string }, value: unknown) {
+  const result = schema(value, 'payload');
+  return result.ok ? { value: result.value } : { error: result.error };
+}
+
+describe('validação de payloads', () => {
+  test('tipos, limites e formato são recusados com o caminho do campo', () => {
+    const schema = object({ name: string({ trim: true, min: 1, max: 5 }), seats: optional(number({ integer: true, min: 2, max: 4 })) });
+    assert.deepEqual(parse(schema, { name: '  Ana ' }), { value: { name: 'Ana' } });
+    assert.deepEqual(parse(schema, null), { error: 'payload: deve ser objeto' });
+    assert.deepEqual(parse(schema, ['Ana']), { error: 'payload: deve ser objeto' });
+    assert.deepEqual(parse(schema, { name: 7 }), { error: 'payload.name: deve ser texto' });
+    assert.deepEqual(parse(schema, { name: '   ' }), { error: 'payload.name: mínimo de 1 caractere(s)' });
+    assert.deepEqual(parse(schema, { name: 'Ana', seats: 2.5 }), { error: 'payload.seats: deve ser inteiro' });
+    assert.deepEqual(parse(schema, { name: 'Ana', seats: 9 }), { error: 'payload.seats: máximo 4' });
+    assert.deepEqual(parse(schema, { name: 'Ana', seats: Number.NaN }), { error: 'payload.seats: deve ser número' });
+  });
+
+  test('objeto estrito recusa campos desconhecidos, inclusive os herdados do protótipo', () => {
+    const schema = object({ roomId: string() });
+    assert.deepEqual(parse(schema, { roomId: 'sala1', extra: true }), { error: 'payload.extra: campo desconhecido' });
+    for (const key of ['toString', 'constructor', 'hasOwnProperty', '__proto__']) {
+      assert.deepEqual(parse(schema, JSON.parse(`{ "roomId": "sala1", "${key}": 1 }`)), { error: `payload.${key}: campo desconhecido` });
+    }
+  });
+
+  test('record recusa chaves que mexem no protótipo e respeita o máximo de chaves', () => {
+    const schema = record(number(), { maxKeys: 2 });
+    assert.deepEqual(parse(schema, { a: 1, b: 2 }), { value: { a: 1, b: 2 } });
+    assert.deepEqual(parse(schema, { a: 1, b: 2, c: 3 }), { error: 'payload: máximo de 2 chaves' });
+    assert.deepEqual(parse(schema, { a: 'x' }), { error: 'payload.a: deve ser número' });
+    for (const key of ['__proto__', 'constructor', 'prototype']) {
+      assert.deepEqual(parse(schema, JSON.parse(`{ "${key}": 1 }`)), { error: `payload.${key}: chave não permitida` });
+    }
+  });
+
+  test('schemas dos eventos: carta, configurações da sala e eventos sem dados', () => {
+    assert.deepEqual(parse(clientEventSchemas.playCard, '7H'), { value: '7H' });
+    assert.deepEqual(parse(clientEventSchemas.playCard, '8H'), { error: 'payload: formato inválido' });
+    assert.deepEqual(parse(clientEventSchemas.joinRoom, { roomId: 'sala1', nickname: '  ' }), { value: { roomId: 'sala1' } });
+    assert.deepEqual(parse(clientEventSchemas.joinRoom, { roomId: 'sala1', nickname: '<script>' }), { error: 'payload.nickname: formato inválido' });
+    assert.deepEqual(parse(clientEventSchemas.updateRoomSettings, { capacity: 5 }), { error: 'payload.capacity: máximo 4' });
+    assert.deepEqual(
+      parse(clientEventSchemas.updateRoomSettings, JSON.parse('{ "chipRules": { "__proto__": { "enabled": true } } }')),
+      { error: 'payload.chipRules.__proto__: chave não permitida' },
+    );
+    assert.deepEqual(parse(clientEventSchemas.abortMatch, undefined), { value: undefined });
+    assert.deepEqual(parse(clientEventSchemas.subscribeLobby, { qualquer: 'coisa' }), { value: undefined });
+  });
+});